@@ -4,7 +4,9 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import AlgorithmPage from "./pages/AlgorithmPage";
 import NotFound from "./pages/NotFound";
+import { ALGORITHM_ROUTES } from "@/lib/share/routes";
 
 const queryClient = new QueryClient();
 
@@ -16,6 +18,9 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          {ALGORITHM_ROUTES.map(route => (
+            <Route key={route.id} path={route.path} element={<AlgorithmPage key={route.id} route={route} />} />
+          ))}
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
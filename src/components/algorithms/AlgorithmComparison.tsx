@@ -0,0 +1,286 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  COMPARED_ALGORITHMS,
+  MAX_COMPARED,
+  MIN_COMPARED,
+  comparisonSetups,
+  initComparison,
+  isComparisonDone,
+  stepComparison,
+  summarizeRun,
+  type ComparedAlgorithm,
+  type ComparisonRun,
+} from '@/lib/search/comparison';
+import { isVisited } from '@/lib/search/engine';
+import { DEFAULT_ENDPOINTS, reconcileEndpoints, type Endpoints } from '@/lib/search/graph';
+import { DEFAULT_GRAPH, type GraphNode } from '@/lib/graph/model';
+import type { GraphDocument } from '@/lib/graph/formats';
+import type { GraphView, ShareableViewProps } from '@/lib/share/url-state';
+import { GRAPH_ENTRY_BYTES, runMetrics, searchCounts } from '@/lib/search/metrics';
+import { useSearchHistory } from '@/hooks/use-search-history';
+import { symmetrize } from '@/lib/graph/editing';
+import GraphCanvas from '@/components/graph/GraphCanvas';
+import PlaybackControls from '@/components/controls/PlaybackControls';
+import EndpointPicker from '@/components/graph/EndpointPicker';
+import GraphImportExport from '@/components/graph/GraphImportExport';
+import GraphGenerator from '@/components/graph/GraphGenerator';
+import MetricsPanel, { type MeasuredRun } from '@/components/metrics/MetricsPanel';
+
+const labelOf = (algorithm: ComparedAlgorithm) =>
+  COMPARED_ALGORITHMS.find(({ id }) => id === algorithm)!.label;
+
+const AlgorithmComparison = ({ initialView, onViewChange }: ShareableViewProps<GraphView>) => {
+  const [graph, setGraph] = useState<GraphNode[]>(initialView?.graph ?? DEFAULT_GRAPH);
+  const [directed, setDirected] = useState(initialView?.directed ?? false);
+
+  const [endpoints, setEndpoints] = useState<Endpoints>(initialView?.endpoints ?? DEFAULT_ENDPOINTS);
+  const [algorithms, setAlgorithms] = useState<ComparedAlgorithm[]>(initialView?.algorithms ?? ['bfs', 'dfs', 'ucs']);
+  const [depthLimit, setDepthLimit] = useState(initialView?.depthLimit ?? 3);
+  const setups = useMemo(
+    () => comparisonSetups(graph, endpoints, algorithms, depthLimit),
+    [graph, endpoints, algorithms, depthLimit],
+  );
+  const history = useSearchHistory(() => initComparison(setups), {
+    advance: snapshot => stepComparison(setups, snapshot),
+    isDone: isComparisonDone,
+    delay: 1000,
+    initialStep: initialView?.step,
+  });
+  const state = history.snapshot;
+
+  // The runs step in lockstep, so only the comparison as a whole is timed
+  const { snapshots, cursor } = history;
+  const measured = useMemo<MeasuredRun[]>(() => {
+    const timeline = snapshots.slice(0, cursor + 1);
+    return timeline[0].runs.map((run, index) => ({
+      label: labelOf(run.algorithm),
+      metrics: runMetrics(
+        timeline.map(snapshot => snapshot.runs[index].snapshot),
+        searchCounts,
+        { elapsed: null, entryBytes: GRAPH_ENTRY_BYTES },
+      ),
+    }));
+  }, [snapshots, cursor]);
+
+  useEffect(() => {
+    const limit = algorithms.includes('dls') ? depthLimit : undefined;
+    onViewChange?.({ graph, endpoints, directed, algorithms, depthLimit: limit, step: history.cursor });
+  }, [graph, endpoints, directed, algorithms, depthLimit, history.cursor, onViewChange]);
+
+  const reset = () => history.reset(initComparison(setups));
+
+  // Every change to the shared setup restarts all runs together so they stay in lockstep
+  const restart = (
+    nextGraph: GraphNode[],
+    nextEndpoints: Endpoints,
+    nextAlgorithms = algorithms,
+    nextDepthLimit = depthLimit,
+    nextDirected = directed,
+  ) => {
+    setGraph(nextGraph);
+    setDirected(nextDirected);
+    setEndpoints(nextEndpoints);
+    setAlgorithms(nextAlgorithms);
+    setDepthLimit(nextDepthLimit);
+    history.reset(initComparison(comparisonSetups(nextGraph, nextEndpoints, nextAlgorithms, nextDepthLimit)));
+  };
+
+  // Only an imported or generated graph refits the canvas view; editing keeps the user's pan and zoom
+  const [loads, setLoads] = useState(0);
+  const load = (next: GraphDocument) => {
+    setLoads(loads + 1);
+    restart(next.graph, next.endpoints, algorithms, depthLimit, next.directed ?? false);
+  };
+
+  const toggleAlgorithm = (algorithm: ComparedAlgorithm) => {
+    const next = algorithms.includes(algorithm)
+      ? algorithms.filter(id => id !== algorithm)
+      : COMPARED_ALGORITHMS.map(({ id }) => id).filter(id => id === algorithm || algorithms.includes(id));
+    restart(graph, endpoints, next);
+  };
+
+  const handleDepthLimitChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const newLimit = parseInt(e.target.value) || 0;
+    restart(graph, endpoints, algorithms, Math.max(0, Math.min(10, newLimit)));
+  };
+
+  const nodeColor = (run: ComparisonRun) => (nodeId: string) => {
+    const { snapshot } = run;
+    if (snapshot.status === 'found' && snapshot.current?.id === nodeId) return 'fill-node-goal';
+    if (snapshot.current?.id === nodeId) return 'fill-node-current';
+    if (isVisited(snapshot, nodeId)) return 'fill-node-visited';
+    if (snapshot.frontier.some(item => item.id === nodeId)) return 'fill-accent';
+    return 'fill-node-default';
+  };
+
+  const statusText = (run: ComparisonRun) => {
+    if (run.snapshot.status === 'running') return 'Running';
+    if (run.snapshot.status === 'found') return 'Found';
+    return run.snapshot.cutoffReached ? 'Cut off' : 'Exhausted';
+  };
+
+  return (
+    <div className="space-y-6">
+      <PlaybackControls history={history} onReset={reset}>
+        <div className="flex items-center gap-1">
+          {COMPARED_ALGORITHMS.map(({ id, label }) => {
+            const selected = algorithms.includes(id);
+            return (
+              <Button
+                key={id}
+                onClick={() => toggleAlgorithm(id)}
+                disabled={
+                  history.isPlaying ||
+                  (selected ? algorithms.length <= MIN_COMPARED : algorithms.length >= MAX_COMPARED)
+                }
+                variant={selected ? 'default' : 'outline'}
+                size="sm"
+              >
+                {label}
+              </Button>
+            );
+          })}
+        </div>
+        {algorithms.includes('dls') && (
+          <div className="flex items-center gap-2">
+            <Label htmlFor="comparison-depth-limit">Depth Limit:</Label>
+            <Input
+              id="comparison-depth-limit"
+              type="number"
+              min="0"
+              max="10"
+              value={depthLimit}
+              onChange={handleDepthLimitChange}
+              className="w-20"
+              disabled={history.isPlaying}
+            />
+          </div>
+        )}
+      </PlaybackControls>
+
+      <EndpointPicker
+        graph={graph}
+        endpoints={endpoints}
+        onChange={next => restart(graph, next)}
+        disabled={history.isPlaying}
+      />
+
+      <GraphImportExport
+        graph={graph}
+        endpoints={endpoints}
+        directed={directed}
+        onImport={load}
+        disabled={history.isPlaying}
+      />
+
+      <GraphGenerator
+        onGenerate={load}
+        disabled={history.isPlaying}
+      />
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Shared Graph</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <GraphCanvas
+              graph={graph}
+              directed={directed}
+              weighted
+              nodeClassName={() => 'fill-node-default'}
+              endpoints={endpoints}
+              viewKey={loads}
+              onGraphChange={next => restart(next, reconcileEndpoints(next, endpoints))}
+              onEndpointsChange={next => restart(graph, next)}
+              onDirectedChange={next => restart(next ? graph : symmetrize(graph), endpoints, algorithms, depthLimit, next)}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Summary (step {state.step})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 pr-2 font-medium">Algorithm</th>
+                  <th className="py-2 pr-2 font-medium">Status</th>
+                  <th className="py-2 pr-2 font-medium">Expanded</th>
+                  <th className="py-2 pr-2 font-medium">Max Frontier</th>
+                  <th className="py-2 pr-2 font-medium">Path</th>
+                  <th className="py-2 pr-2 font-medium">Length</th>
+                  <th className="py-2 font-medium">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {state.runs.map(run => {
+                  const summary = summarizeRun(graph, run);
+                  const finished = run.snapshot.status !== 'running';
+                  return (
+                    <tr key={run.algorithm} className="border-b last:border-0 font-mono">
+                      <td className="py-2 pr-2 font-sans font-semibold">{labelOf(run.algorithm)}</td>
+                      <td className="py-2 pr-2 font-sans">{statusText(run)}</td>
+                      <td className="py-2 pr-2">{summary.nodesExpanded}</td>
+                      <td className="py-2 pr-2">{summary.maxFrontier}</td>
+                      <td className="py-2 pr-2">{finished ? summary.path?.join(' → ') ?? 'None' : '…'}</td>
+                      <td className="py-2 pr-2">{summary.pathLength ?? '–'}</td>
+                      <td className="py-2">{summary.pathCost ?? '–'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <p className="mt-4 text-xs text-muted-foreground">
+              Each step expands one node in every search that is still running. Path cost uses the
+              edge costs for every algorithm, so only UCS is guaranteed to minimise it.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className={`grid grid-cols-1 md:grid-cols-2 ${state.runs.length > 2 ? 'xl:grid-cols-4' : ''} gap-6`}>
+        {state.runs.map(run => (
+          <Card key={run.algorithm}>
+            <CardHeader>
+              <CardTitle>{labelOf(run.algorithm)}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <GraphCanvas
+                graph={graph}
+                directed={directed}
+                weighted={run.algorithm === 'ucs'}
+                nodeClassName={nodeColor(run)}
+                endpoints={endpoints}
+                viewKey={loads}
+                highlightedPath={run.snapshot.current?.path ?? []}
+              />
+              <p className="text-sm text-muted-foreground">
+                Current Node:{' '}
+                <span className="font-mono bg-accent px-2 py-1 rounded">{run.snapshot.current?.id || 'None'}</span>
+              </p>
+              <p className="text-sm text-muted-foreground">Frontier: {run.snapshot.frontier.length} nodes</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Run Metrics</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <MetricsPanel runs={measured} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AlgorithmComparison;
@@ -0,0 +1,215 @@
+import { useState, useMemo, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { initBidirectional, stepBidirectional, type SearchSide } from '@/lib/search/bidirectional';
+import { DEFAULT_ENDPOINTS, bidirectionalProblem, reconcileEndpoints, type Endpoints } from '@/lib/search/graph';
+import { DEFAULT_GRAPH, type GraphNode } from '@/lib/graph/model';
+import type { GraphDocument } from '@/lib/graph/formats';
+import type { GraphView, ShareableViewProps } from '@/lib/share/url-state';
+import { GRAPH_ENTRY_BYTES, bidirectionalCounts } from '@/lib/search/metrics';
+import { useSearchHistory } from '@/hooks/use-search-history';
+import { useRunMetrics } from '@/hooks/use-run-metrics';
+import { symmetrize } from '@/lib/graph/editing';
+import GraphCanvas from '@/components/graph/GraphCanvas';
+import PlaybackControls from '@/components/controls/PlaybackControls';
+import EndpointPicker from '@/components/graph/EndpointPicker';
+import GraphImportExport from '@/components/graph/GraphImportExport';
+import GraphGenerator from '@/components/graph/GraphGenerator';
+import MetricsPanel from '@/components/metrics/MetricsPanel';
+
+const BidirectionalSearch = ({ initialView, onViewChange }: ShareableViewProps<GraphView>) => {
+  const [graph, setGraph] = useState<GraphNode[]>(initialView?.graph ?? DEFAULT_GRAPH);
+  const [directed, setDirected] = useState(initialView?.directed ?? false);
+
+  const [endpoints, setEndpoints] = useState<Endpoints>(() =>
+    initialView ? { ...initialView.endpoints, goals: initialView.endpoints.goals.slice(-1) } : DEFAULT_ENDPOINTS,
+  );
+  const problem = useMemo(() => bidirectionalProblem(graph, endpoints, directed), [graph, endpoints, directed]);
+  const history = useSearchHistory(() => initBidirectional(problem), {
+    advance: snapshot => stepBidirectional(problem, snapshot),
+    isDone: snapshot => snapshot.status !== 'running',
+    delay: 1000,
+    initialStep: initialView?.step,
+  });
+  const state = history.snapshot;
+  const metrics = useRunMetrics(history, bidirectionalCounts, GRAPH_ENTRY_BYTES);
+
+  useEffect(() => {
+    onViewChange?.({ graph, endpoints, directed, step: history.cursor });
+  }, [graph, endpoints, directed, history.cursor, onViewChange]);
+
+  const isComplete = state.status === 'found';
+
+  const reset = () => history.reset(initBidirectional(problem));
+
+  // Only one goal makes sense here, so keep the most recently picked one
+  const restart = (nextGraph: GraphNode[], nextEndpoints: Endpoints, nextDirected = directed) => {
+    const single = { ...nextEndpoints, goals: nextEndpoints.goals.slice(-1) };
+    setGraph(nextGraph);
+    setDirected(nextDirected);
+    setEndpoints(single);
+    history.reset(initBidirectional(bidirectionalProblem(nextGraph, single, nextDirected)));
+  };
+
+  // Only an imported or generated graph refits the canvas view; editing keeps the user's pan and zoom
+  const [loads, setLoads] = useState(0);
+  const load = (next: GraphDocument) => {
+    setLoads(loads + 1);
+    restart(next.graph, next.endpoints, next.directed ?? false);
+  };
+
+  const getNodeColor = (nodeId: string) => {
+    if (state.meeting === nodeId) return 'fill-node-goal';
+    if (state.current?.id === nodeId) return 'fill-node-current';
+    if (state.forward.visited.has(nodeId)) return 'fill-node-visited';
+    if (state.backward.visited.has(nodeId)) return 'fill-node-start/40';
+    if (state.forward.frontier.includes(nodeId) || state.backward.frontier.includes(nodeId)) return 'fill-accent';
+    return 'fill-node-default';
+  };
+
+  const renderSide = (title: string, side: SearchSide, visitedClass: string) => (
+    <div>
+      <p className="font-semibold mb-2">{title}</p>
+      <p className="text-sm text-muted-foreground mb-1">Queue:</p>
+      <div className="flex gap-2 flex-wrap mb-2">
+        {side.frontier.map((nodeId, index) => (
+          <span key={index} className="bg-accent text-accent-foreground px-2 py-1 rounded font-mono text-sm">
+            {nodeId}
+          </span>
+        ))}
+        {side.frontier.length === 0 && (
+          <span className="text-muted-foreground text-sm">Empty</span>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground mb-1">Visited:</p>
+      <div className="flex gap-2 flex-wrap">
+        {Array.from(side.visited).map(nodeId => (
+          <span key={nodeId} className={`${visitedClass} text-foreground px-2 py-1 rounded font-mono text-sm`}>
+            {nodeId}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <PlaybackControls history={history} onReset={reset} />
+
+      <EndpointPicker
+        graph={graph}
+        endpoints={endpoints}
+        onChange={next => restart(graph, next)}
+        disabled={history.isPlaying}
+        singleGoal
+      />
+
+      <GraphImportExport
+        graph={graph}
+        endpoints={endpoints}
+        directed={directed}
+        onImport={load}
+        disabled={history.isPlaying}
+      />
+
+      <GraphGenerator onGenerate={load} disabled={history.isPlaying} />
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Graph Visualization</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <GraphCanvas
+              graph={graph}
+              directed={directed}
+              nodeClassName={getNodeColor}
+              endpoints={endpoints}
+              highlightedPath={state.path}
+              viewKey={loads}
+              onGraphChange={next => restart(next, reconcileEndpoints(next, endpoints))}
+              onEndpointsChange={next => restart(graph, next)}
+              onDirectedChange={next => restart(next ? graph : symmetrize(graph), endpoints, next)}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Algorithm State</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <p className="font-semibold mb-2">Step: {state.step}</p>
+              <p className="text-sm text-muted-foreground">
+                Current Node: <span className="font-mono bg-accent px-2 py-1 rounded">{state.current?.id || 'None'}</span>
+                {state.current && ` (${state.current.direction})`}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Next Turn: <span className="font-mono bg-accent px-2 py-1 rounded">{state.turn}</span>
+              </p>
+            </div>
+
+            {renderSide(`Forward from ${endpoints.start}`, state.forward, 'bg-node-visited')}
+            {renderSide(`Backward from ${endpoints.goals[0] ?? '?'}`, state.backward, 'bg-node-start/40')}
+
+            {endpoints.goals.length === 0 && (
+              <p className="text-sm text-muted-foreground">Pick a goal node to search towards.</p>
+            )}
+
+            {isComplete && (
+              <div className="p-4 bg-node-goal/20 border border-node-goal rounded">
+                <p className="font-semibold text-node-goal">Frontiers met at {state.meeting}!</p>
+                <p className="font-mono mt-2">Path: {state.path.join(' → ')}</p>
+                <p className="font-mono">Length: {state.path.length - 1}</p>
+              </div>
+            )}
+
+            {state.status === 'exhausted' && (
+              <div className="p-4 bg-destructive/20 border border-destructive rounded">
+                <p className="font-semibold text-destructive">Search failed!</p>
+                <p className="text-sm">The two searches never met, so no path exists.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Run Metrics</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <MetricsPanel runs={[{ label: 'Bidirectional', metrics }]} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Algorithm Explanation</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="prose prose-sm max-w-none">
+            <p className="mb-4">
+              <strong>Bidirectional Search</strong> runs two breadth-first searches at once, one forward from
+              the start and one backward from the goal, and stops as soon as they meet in the middle.
+            </p>
+            <ol className="list-decimal ml-6 space-y-2">
+              <li>Put the start in the forward queue and the goal in the backward queue</li>
+              <li>Alternate sides, removing the first node from that side's queue</li>
+              <li>Add its neighbors that this side has not reached yet</li>
+              <li>If a neighbor was already reached by the other side, the searches meet there</li>
+              <li>Join the forward path to the meeting node with the reversed backward path</li>
+            </ol>
+            <p className="mt-4 text-sm text-muted-foreground">
+              <strong>Time Complexity:</strong> O(b^(d/2)) for each side instead of O(b^d)<br/>
+              <strong>Space Complexity:</strong> O(b^(d/2)) for both frontiers<br/>
+              <strong>Requires:</strong> a single explicit goal and the ability to search backwards
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BidirectionalSearch;
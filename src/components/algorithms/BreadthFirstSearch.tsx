@@ -1,132 +1,103 @@
-import React, { useState, useEffect } from 'react';
-import { Button } from '@/components/ui/button';
+import React, { useState, useMemo, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Play, Pause, RotateCcw, SkipForward } from 'lucide-react';
-
-interface Node {
-  id: string;
-  x: number;
-  y: number;
-  neighbors: string[];
-}
-
-interface GraphState {
-  visited: Set<string>;
-  queue: string[];
-  current: string | null;
-  path: string[];
-  step: number;
-}
-
-const BreadthFirstSearch = () => {
-  const [graph] = useState<Node[]>([
-    { id: 'A', x: 100, y: 50, neighbors: ['B', 'C'] },
-    { id: 'B', x: 50, y: 150, neighbors: ['A', 'D', 'E'] },
-    { id: 'C', x: 150, y: 150, neighbors: ['A', 'F'] },
-    { id: 'D', x: 25, y: 250, neighbors: ['B'] },
-    { id: 'E', x: 75, y: 250, neighbors: ['B', 'G'] },
-    { id: 'F', x: 175, y: 250, neighbors: ['C', 'G'] },
-    { id: 'G', x: 125, y: 350, neighbors: ['E', 'F'] },
-  ]);
-
-  const [state, setState] = useState<GraphState>({
-    visited: new Set(),
-    queue: ['A'],
-    current: null,
-    path: [],
-    step: 0,
+import { expandedAt, initSearch, isFinished, isVisited, pathTo, queueFrontier, stepSearch, treeAt, visitedAt, type SearchSnapshot } from '@/lib/search/engine';
+import { DEFAULT_ENDPOINTS, graphProblem, reconcileEndpoints, type Endpoints } from '@/lib/search/graph';
+import { DEFAULT_GRAPH, type GraphNode } from '@/lib/graph/model';
+import type { GraphDocument } from '@/lib/graph/formats';
+import type { GraphView, ShareableViewProps } from '@/lib/share/url-state';
+import { GRAPH_ENTRY_BYTES, searchCounts } from '@/lib/search/metrics';
+import { MAX_HISTORY, useSearchHistory } from '@/hooks/use-search-history';
+import { useSearchWorker } from '@/hooks/use-search-worker';
+import { useRunMetrics } from '@/hooks/use-run-metrics';
+import { symmetrize } from '@/lib/graph/editing';
+import GraphCanvas from '@/components/graph/GraphCanvas';
+import PlaybackControls from '@/components/controls/PlaybackControls';
+import WorkerControls from '@/components/controls/WorkerControls';
+import EndpointPicker from '@/components/graph/EndpointPicker';
+import GraphImportExport from '@/components/graph/GraphImportExport';
+import GraphGenerator from '@/components/graph/GraphGenerator';
+import SearchTree from '@/components/graph/SearchTree';
+import MetricsPanel from '@/components/metrics/MetricsPanel';
+
+const BreadthFirstSearch = ({ initialView, onViewChange }: ShareableViewProps<GraphView>) => {
+  const [graph, setGraph] = useState<GraphNode[]>(initialView?.graph ?? DEFAULT_GRAPH);
+  const [directed, setDirected] = useState(initialView?.directed ?? false);
+
+  const [endpoints, setEndpoints] = useState<Endpoints>(initialView?.endpoints ?? DEFAULT_ENDPOINTS);
+  const problem = useMemo(() => graphProblem(graph, endpoints), [graph, endpoints]);
+  const history = useSearchHistory(() => initSearch(problem), {
+    advance: snapshot => stepSearch(problem, snapshot, { frontier: queueFrontier }),
+    isDone: isFinished,
+    delay: 1000,
+    initialStep: initialView?.step,
   });
+  const state = history.snapshot;
+  const worker = useSearchWorker<SearchSnapshot>();
+  const metrics = useRunMetrics(history, searchCounts, GRAPH_ENTRY_BYTES);
+
+  useEffect(() => {
+    onViewChange?.({ graph, endpoints, directed, step: history.cursor });
+  }, [graph, endpoints, directed, history.cursor, onViewChange]);
 
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [isComplete, setIsComplete] = useState(false);
-  const [target] = useState('G');
+  const isComplete = state.status === 'found';
+  const queue = state.frontier.map(node => node.id);
+  const currentPath = state.current ? pathTo(state, state.current.id) : [];
 
   const reset = () => {
-    setState({
-      visited: new Set(),
-      queue: ['A'],
-      current: null,
-      path: [],
-      step: 0,
-    });
-    setIsComplete(false);
-    setIsPlaying(false);
+    worker.clear();
+    history.reset(initSearch(problem));
   };
 
-  const step = () => {
-    if (state.queue.length === 0 || isComplete) return;
-
-    const newQueue = [...state.queue];
-    const current = newQueue.shift()!;
-    const newVisited = new Set(state.visited);
-    newVisited.add(current);
-
-    const currentNode = graph.find(n => n.id === current)!;
-    
-    // Add unvisited neighbors to queue
-    currentNode.neighbors.forEach(neighbor => {
-      if (!newVisited.has(neighbor) && !newQueue.includes(neighbor)) {
-        newQueue.push(neighbor);
-      }
-    });
-
-    const newState = {
-      visited: newVisited,
-      queue: newQueue,
-      current,
-      path: [...state.path, current],
-      step: state.step + 1,
-    };
-
-    setState(newState);
-
-    if (current === target) {
-      setIsComplete(true);
-      setIsPlaying(false);
-    }
+  // The worker records the same snapshots stepping would, so the whole run can be replayed
+  const runInBackground = () =>
+    worker.start({ kind: 'graph', algorithm: 'bfs', graph, endpoints, maxLength: MAX_HISTORY }, history.load);
+
+  // Changing the graph or its endpoints invalidates the current run
+  const restart = (nextGraph: GraphNode[], nextEndpoints: Endpoints, nextDirected = directed) => {
+    setGraph(nextGraph);
+    setDirected(nextDirected);
+    setEndpoints(nextEndpoints);
+    worker.clear();
+    history.reset(initSearch(graphProblem(nextGraph, nextEndpoints)));
   };
 
-  useEffect(() => {
-    if (isPlaying && !isComplete) {
-      const timer = setTimeout(step, 1000);
-      return () => clearTimeout(timer);
-    }
-  }, [isPlaying, state, isComplete]);
+  // Only an imported or generated graph refits the canvas view; editing keeps the user's pan and zoom
+  const [loads, setLoads] = useState(0);
+  const load = (next: GraphDocument) => {
+    setLoads(loads + 1);
+    restart(next.graph, next.endpoints, next.directed ?? false);
+  };
 
   const getNodeColor = (nodeId: string) => {
-    if (nodeId === target && isComplete) return 'fill-node-goal';
-    if (state.current === nodeId) return 'fill-node-current';
-    if (state.visited.has(nodeId)) return 'fill-node-visited';
-    if (state.queue.includes(nodeId)) return 'fill-accent';
+    if (isComplete && state.current?.id === nodeId) return 'fill-node-goal';
+    if (state.current?.id === nodeId) return 'fill-node-current';
+    if (isVisited(state, nodeId)) return 'fill-node-visited';
+    if (queue.includes(nodeId)) return 'fill-accent';
     return 'fill-node-default';
   };
 
-  const getNodeStroke = (nodeId: string) => {
-    if (nodeId === 'A') return 'stroke-node-start stroke-2';
-    return 'stroke-border';
-  };
-
   return (
     <div className="space-y-6">
-      <div className="flex gap-4 items-center">
-        <Button
-          onClick={() => setIsPlaying(!isPlaying)}
-          disabled={isComplete}
-          variant="default"
-          size="sm"
-        >
-          {isPlaying ? <Pause className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
-          {isPlaying ? 'Pause' : 'Play'}
-        </Button>
-        <Button onClick={step} disabled={isPlaying || isComplete} variant="outline" size="sm">
-          <SkipForward className="w-4 h-4 mr-2" />
-          Step
-        </Button>
-        <Button onClick={reset} variant="outline" size="sm">
-          <RotateCcw className="w-4 h-4 mr-2" />
-          Reset
-        </Button>
-      </div>
+      <PlaybackControls history={history} onReset={reset}>
+        <WorkerControls worker={worker} onRun={runInBackground} disabled={history.isPlaying} />
+      </PlaybackControls>
+
+      <EndpointPicker
+        graph={graph}
+        endpoints={endpoints}
+        onChange={next => restart(graph, next)}
+        disabled={history.isPlaying}
+      />
+
+      <GraphImportExport
+        graph={graph}
+        endpoints={endpoints}
+        directed={directed}
+        onImport={load}
+        disabled={history.isPlaying}
+      />
+
+      <GraphGenerator onGenerate={load} disabled={history.isPlaying} />
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card>
@@ -134,45 +105,17 @@ const BreadthFirstSearch = () => {
             <CardTitle>Graph Visualization</CardTitle>
           </CardHeader>
           <CardContent>
-            <svg width="200" height="400" viewBox="0 0 200 400" className="border rounded">
-              {/* Edges */}
-              {graph.map(node => 
-                node.neighbors.map(neighborId => {
-                  const neighbor = graph.find(n => n.id === neighborId)!;
-                  return (
-                    <line
-                      key={`${node.id}-${neighborId}`}
-                      x1={node.x}
-                      y1={node.y}
-                      x2={neighbor.x}
-                      y2={neighbor.y}
-                      stroke="hsl(var(--border))"
-                      strokeWidth="2"
-                    />
-                  );
-                })
-              )}
-              
-              {/* Nodes */}
-              {graph.map(node => (
-                <g key={node.id}>
-                  <circle
-                    cx={node.x}
-                    cy={node.y}
-                    r="20"
-                    className={`${getNodeColor(node.id)} ${getNodeStroke(node.id)} transition-all duration-300`}
-                  />
-                  <text
-                    x={node.x}
-                    y={node.y + 5}
-                    textAnchor="middle"
-                    className="text-sm font-bold fill-foreground"
-                  >
-                    {node.id}
-                  </text>
-                </g>
-              ))}
-            </svg>
+            <GraphCanvas
+              graph={graph}
+              directed={directed}
+              nodeClassName={getNodeColor}
+              endpoints={endpoints}
+              highlightedPath={currentPath}
+              viewKey={loads}
+              onGraphChange={next => restart(next, reconcileEndpoints(next, endpoints))}
+              onEndpointsChange={next => restart(graph, next)}
+              onDirectedChange={next => restart(next ? graph : symmetrize(graph), endpoints, next)}
+            />
           </CardContent>
         </Card>
 
@@ -184,19 +127,19 @@ const BreadthFirstSearch = () => {
             <div>
               <p className="font-semibold mb-2">Step: {state.step}</p>
               <p className="text-sm text-muted-foreground">
-                Current Node: <span className="font-mono bg-accent px-2 py-1 rounded">{state.current || 'None'}</span>
+                Current Node: <span className="font-mono bg-accent px-2 py-1 rounded">{state.current?.id || 'None'}</span>
               </p>
             </div>
             
             <div>
               <p className="font-semibold mb-2">Queue:</p>
               <div className="flex gap-2 flex-wrap">
-                {state.queue.map((nodeId, index) => (
+                {queue.map((nodeId, index) => (
                   <span key={index} className="bg-accent text-accent-foreground px-2 py-1 rounded font-mono text-sm">
                     {nodeId}
                   </span>
                 ))}
-                {state.queue.length === 0 && (
+                {queue.length === 0 && (
                   <span className="text-muted-foreground text-sm">Empty</span>
                 )}
               </div>
@@ -205,7 +148,7 @@ const BreadthFirstSearch = () => {
             <div>
               <p className="font-semibold mb-2">Visited:</p>
               <div className="flex gap-2 flex-wrap">
-                {Array.from(state.visited).map(nodeId => (
+                {visitedAt(state).map(nodeId => (
                   <span key={nodeId} className="bg-node-visited text-foreground px-2 py-1 rounded font-mono text-sm">
                     {nodeId}
                   </span>
@@ -214,22 +157,62 @@ const BreadthFirstSearch = () => {
             </div>
 
             <div>
-              <p className="font-semibold mb-2">Path:</p>
+              <p className="font-semibold mb-2">Expansion Order:</p>
+              <div className="font-mono text-sm bg-muted p-2 rounded">
+                {expandedAt(state).join(' → ') || 'Nothing expanded yet'}
+              </div>
+            </div>
+
+            <div>
+              <p className="font-semibold mb-2">Path to Current Node:</p>
               <div className="font-mono text-sm bg-muted p-2 rounded">
-                {state.path.join(' → ') || 'No path yet'}
+                {currentPath.join(' → ') || 'No path yet'}
               </div>
             </div>
 
             {isComplete && (
               <div className="p-4 bg-node-goal/20 border border-node-goal rounded">
-                <p className="font-semibold text-node-goal">Target found! Path to {target}:</p>
-                <p className="font-mono mt-2">{state.path.join(' → ')}</p>
+                <p className="font-semibold text-node-goal">Target found! Path to {state.current?.id}:</p>
+                <p className="font-mono mt-2">{currentPath.join(' → ')}</p>
+                <p className="font-mono">Length: {currentPath.length - 1} edges, {state.step} nodes expanded</p>
+              </div>
+            )}
+
+            {state.status === 'exhausted' && endpoints.goals.length === 0 && (
+              <div className="p-4 bg-accent/20 border border-accent rounded">
+                <p className="font-semibold">Traversal complete!</p>
+                <p className="text-sm">Visited all {state.visitedCount} nodes reachable from {endpoints.start}.</p>
+              </div>
+            )}
+
+            {state.status === 'exhausted' && endpoints.goals.length > 0 && (
+              <div className="p-4 bg-destructive/20 border border-destructive rounded">
+                <p className="font-semibold text-destructive">Search failed!</p>
+                <p className="text-sm">No goal is reachable from {endpoints.start}.</p>
               </div>
             )}
           </CardContent>
         </Card>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Search Tree</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <SearchTree tree={treeAt(state)} currentKey={state.current?.key} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Run Metrics</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <MetricsPanel runs={[{ label: 'BFS', metrics }]} />
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Algorithm Explanation</CardTitle>
@@ -245,7 +228,9 @@ const BreadthFirstSearch = () => {
               <li>Remove the first node from the queue</li>
               <li>Mark it as visited</li>
               <li>Add all unvisited neighbors to the end of the queue</li>
+              <li>Record the node as the parent of each neighbor it adds</li>
               <li>Repeat until the target is found or queue is empty</li>
+              <li>Follow parent pointers back from the target to recover the path</li>
             </ol>
             <p className="mt-4 text-sm text-muted-foreground">
               <strong>Time Complexity:</strong> O(V + E) where V is vertices and E is edges<br/>
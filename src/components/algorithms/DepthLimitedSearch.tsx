@@ -1,168 +1,106 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Play, Pause, RotateCcw, SkipForward } from 'lucide-react';
+import { expandedAt, initSearch, isFinished, isVisited, stackFrontier, stepSearch, treeAt, visitedAt } from '@/lib/search/engine';
+import { initDeepening, passResult, stepDeepening, totalExpanded } from '@/lib/search/deepening';
+import { DEFAULT_ENDPOINTS, graphProblem, reconcileEndpoints, type Endpoints } from '@/lib/search/graph';
+import { DEFAULT_GRAPH, type GraphNode } from '@/lib/graph/model';
+import type { GraphDocument } from '@/lib/graph/formats';
+import type { GraphView, ShareableViewProps } from '@/lib/share/url-state';
+import { GRAPH_ENTRY_BYTES, deepeningCounts, searchCounts } from '@/lib/search/metrics';
+import { useSearchHistory } from '@/hooks/use-search-history';
+import { useRunMetrics } from '@/hooks/use-run-metrics';
+import { symmetrize } from '@/lib/graph/editing';
+import GraphCanvas from '@/components/graph/GraphCanvas';
+import PlaybackControls from '@/components/controls/PlaybackControls';
+import EndpointPicker from '@/components/graph/EndpointPicker';
+import GraphImportExport from '@/components/graph/GraphImportExport';
+import GraphGenerator from '@/components/graph/GraphGenerator';
+import SearchTree from '@/components/graph/SearchTree';
+import MetricsPanel from '@/components/metrics/MetricsPanel';
 
-interface Node {
-  id: string;
-  x: number;
-  y: number;
-  neighbors: string[];
-}
+const DepthLimitedSearch = ({ initialView, onViewChange }: ShareableViewProps<GraphView>) => {
+  const [graph, setGraph] = useState<GraphNode[]>(initialView?.graph ?? DEFAULT_GRAPH);
+  const [directed, setDirected] = useState(initialView?.directed ?? false);
 
-interface StackItem {
-  nodeId: string;
-  depth: number;
-  path: string[];
-}
-
-interface GraphState {
-  visited: Set<string>;
-  stack: StackItem[];
-  current: string | null;
-  currentDepth: number;
-  currentPath: string[];
-  step: number;
-  cutoffReached: boolean;
-}
-
-const DepthLimitedSearch = () => {
-  const [graph] = useState<Node[]>([
-    { id: 'A', x: 100, y: 50, neighbors: ['B', 'C'] },
-    { id: 'B', x: 50, y: 150, neighbors: ['A', 'D', 'E'] },
-    { id: 'C', x: 150, y: 150, neighbors: ['A', 'F'] },
-    { id: 'D', x: 25, y: 250, neighbors: ['B'] },
-    { id: 'E', x: 75, y: 250, neighbors: ['B', 'G'] },
-    { id: 'F', x: 175, y: 250, neighbors: ['C', 'G'] },
-    { id: 'G', x: 125, y: 350, neighbors: ['E', 'F'] },
-  ]);
-
-  const [depthLimit, setDepthLimit] = useState(3);
-  const [state, setState] = useState<GraphState>({
-    visited: new Set(),
-    stack: [{ nodeId: 'A', depth: 0, path: ['A'] }],
-    current: null,
-    currentDepth: 0,
-    currentPath: [],
-    step: 0,
-    cutoffReached: false,
+  const [depthLimit, setDepthLimit] = useState(initialView?.depthLimit ?? 3);
+  const [endpoints, setEndpoints] = useState<Endpoints>(initialView?.endpoints ?? DEFAULT_ENDPOINTS);
+  const problem = useMemo(() => graphProblem(graph, endpoints), [graph, endpoints]);
+  const [iterative, setIterative] = useState(initialView?.iterative ?? false);
+  const limitedHistory = useSearchHistory(() => initSearch(problem), {
+    advance: snapshot => stepSearch(problem, snapshot, { frontier: stackFrontier, depthLimit }),
+    isDone: isFinished,
+    delay: 1000,
+    initialStep: iterative ? 0 : initialView?.step,
   });
+  const deepeningHistory = useSearchHistory(() => initDeepening(problem), {
+    advance: snapshot => stepDeepening(problem, snapshot),
+    isDone: snapshot => snapshot.status !== 'running',
+    delay: 1000,
+    initialStep: iterative ? initialView?.step : 0,
+  });
+  const history = iterative ? deepeningHistory : limitedHistory;
+  const limitedMetrics = useRunMetrics(limitedHistory, searchCounts, GRAPH_ENTRY_BYTES);
+  const deepeningMetrics = useRunMetrics(deepeningHistory, deepeningCounts, GRAPH_ENTRY_BYTES);
+  const deepening = deepeningHistory.snapshot;
+
+  useEffect(() => {
+    onViewChange?.({ graph, endpoints, directed, depthLimit, iterative, step: history.cursor });
+  }, [graph, endpoints, directed, depthLimit, iterative, history.cursor, onViewChange]);
 
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [isComplete, setIsComplete] = useState(false);
-  const [target] = useState('G');
+  // In iterative mode the panels show the current pass
+  const state = iterative ? deepening.pass : limitedHistory.snapshot;
+  const limit = iterative ? deepening.limit : depthLimit;
+  const exhausted = iterative ? deepening.status === 'failure' : state.status === 'exhausted';
+  const isComplete = state.status === 'found';
+  const currentDepth = state.current?.depth ?? 0;
+  const currentPath = state.current?.path ?? [];
 
   const reset = () => {
-    setState({
-      visited: new Set(),
-      stack: [{ nodeId: 'A', depth: 0, path: ['A'] }],
-      current: null,
-      currentDepth: 0,
-      currentPath: [],
-      step: 0,
-      cutoffReached: false,
-    });
-    setIsComplete(false);
-    setIsPlaying(false);
+    limitedHistory.reset(initSearch(problem));
+    deepeningHistory.reset(initDeepening(problem));
   };
 
-  const step = () => {
-    if (state.stack.length === 0 || isComplete) return;
-
-    const newStack = [...state.stack];
-    const currentItem = newStack.pop()!;
-    const newVisited = new Set(state.visited);
-    newVisited.add(currentItem.nodeId);
-
-    const currentNode = graph.find(n => n.id === currentItem.nodeId)!;
-    let cutoffReached = state.cutoffReached;
-
-    // Only add neighbors if we haven't reached the depth limit
-    if (currentItem.depth < depthLimit) {
-      const unvisitedNeighbors = currentNode.neighbors
-        .filter(neighbor => 
-          !newVisited.has(neighbor) && 
-          !newStack.some(item => item.nodeId === neighbor)
-        )
-        .reverse(); // Reverse for consistent traversal order
-
-      unvisitedNeighbors.forEach(neighbor => {
-        newStack.push({
-          nodeId: neighbor,
-          depth: currentItem.depth + 1,
-          path: [...currentItem.path, neighbor],
-        });
-      });
-    } else if (currentNode.neighbors.some(neighbor => !newVisited.has(neighbor))) {
-      // We've reached the depth limit but there are unexplored neighbors
-      cutoffReached = true;
-    }
-
-    const newState = {
-      visited: newVisited,
-      stack: newStack,
-      current: currentItem.nodeId,
-      currentDepth: currentItem.depth,
-      currentPath: currentItem.path,
-      step: state.step + 1,
-      cutoffReached,
-    };
-
-    setState(newState);
+  const toggleIterative = () => {
+    setIterative(!iterative);
+    reset();
+  };
 
-    if (currentItem.nodeId === target) {
-      setIsComplete(true);
-      setIsPlaying(false);
-    }
+  // Changing the graph or its endpoints invalidates the current run
+  const restart = (nextGraph: GraphNode[], nextEndpoints: Endpoints, nextDirected = directed) => {
+    setGraph(nextGraph);
+    setDirected(nextDirected);
+    setEndpoints(nextEndpoints);
+    limitedHistory.reset(initSearch(graphProblem(nextGraph, nextEndpoints)));
+    deepeningHistory.reset(initDeepening(graphProblem(nextGraph, nextEndpoints)));
   };
 
-  useEffect(() => {
-    if (isPlaying && !isComplete) {
-      const timer = setTimeout(step, 1000);
-      return () => clearTimeout(timer);
-    }
-  }, [isPlaying, state, isComplete]);
+  // Only an imported or generated graph refits the canvas view; editing keeps the user's pan and zoom
+  const [loads, setLoads] = useState(0);
+  const load = (next: GraphDocument) => {
+    setLoads(loads + 1);
+    restart(next.graph, next.endpoints, next.directed ?? false);
+  };
 
   const getNodeColor = (nodeId: string) => {
-    if (nodeId === target && isComplete) return 'fill-node-goal';
-    if (state.current === nodeId) return 'fill-node-current';
-    if (state.visited.has(nodeId)) return 'fill-node-visited';
-    if (state.stack.some(item => item.nodeId === nodeId)) return 'fill-accent';
+    if (isComplete && state.current?.id === nodeId) return 'fill-node-goal';
+    if (state.current?.id === nodeId) return 'fill-node-current';
+    if (isVisited(state, nodeId)) return 'fill-node-visited';
+    if (state.frontier.some(item => item.id === nodeId)) return 'fill-accent';
     return 'fill-node-default';
   };
 
-  const getNodeStroke = (nodeId: string) => {
-    if (nodeId === 'A') return 'stroke-node-start stroke-2';
-    return 'stroke-border';
-  };
-
   const handleDepthLimitChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newLimit = parseInt(e.target.value) || 0;
     setDepthLimit(Math.max(0, Math.min(10, newLimit)));
+    limitedHistory.reset(initSearch(problem));
   };
 
   return (
     <div className="space-y-6">
-      <div className="flex gap-4 items-center flex-wrap">
-        <Button
-          onClick={() => setIsPlaying(!isPlaying)}
-          disabled={isComplete}
-          variant="default"
-          size="sm"
-        >
-          {isPlaying ? <Pause className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
-          {isPlaying ? 'Pause' : 'Play'}
-        </Button>
-        <Button onClick={step} disabled={isPlaying || isComplete} variant="outline" size="sm">
-          <SkipForward className="w-4 h-4 mr-2" />
-          Step
-        </Button>
-        <Button onClick={reset} variant="outline" size="sm">
-          <RotateCcw className="w-4 h-4 mr-2" />
-          Reset
-        </Button>
+      <PlaybackControls history={history} onReset={reset}>
         <div className="flex items-center gap-2">
           <Label htmlFor="depth-limit">Depth Limit:</Label>
           <Input
@@ -170,13 +108,33 @@ const DepthLimitedSearch = () => {
             type="number"
             min="0"
             max="10"
-            value={depthLimit}
+            value={limit}
             onChange={handleDepthLimitChange}
             className="w-20"
-            disabled={isPlaying}
+            disabled={history.isPlaying || iterative}
           />
         </div>
-      </div>
+        <Button onClick={toggleIterative} disabled={history.isPlaying} variant={iterative ? 'default' : 'outline'} size="sm">
+          Iterative Deepening
+        </Button>
+      </PlaybackControls>
+
+      <EndpointPicker
+        graph={graph}
+        endpoints={endpoints}
+        onChange={next => restart(graph, next)}
+        disabled={history.isPlaying}
+      />
+
+      <GraphImportExport
+        graph={graph}
+        endpoints={endpoints}
+        directed={directed}
+        onImport={load}
+        disabled={history.isPlaying}
+      />
+
+      <GraphGenerator onGenerate={load} disabled={history.isPlaying} />
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card>
@@ -184,54 +142,18 @@ const DepthLimitedSearch = () => {
             <CardTitle>Graph Visualization</CardTitle>
           </CardHeader>
           <CardContent>
-            <svg width="200" height="400" viewBox="0 0 200 400" className="border rounded">
-              {/* Edges */}
-              {graph.map(node => 
-                node.neighbors.map(neighborId => {
-                  const neighbor = graph.find(n => n.id === neighborId)!;
-                  return (
-                    <line
-                      key={`${node.id}-${neighborId}`}
-                      x1={node.x}
-                      y1={node.y}
-                      x2={neighbor.x}
-                      y2={neighbor.y}
-                      stroke="hsl(var(--border))"
-                      strokeWidth="2"
-                    />
-                  );
-                })
-              )}
-              
-              {/* Nodes */}
-              {graph.map(node => (
-                <g key={node.id}>
-                  <circle
-                    cx={node.x}
-                    cy={node.y}
-                    r="20"
-                    className={`${getNodeColor(node.id)} ${getNodeStroke(node.id)} transition-all duration-300`}
-                  />
-                  <text
-                    x={node.x}
-                    y={node.y + 5}
-                    textAnchor="middle"
-                    className="text-sm font-bold fill-foreground"
-                  >
-                    {node.id}
-                  </text>
-                  {/* Depth label */}
-                  <text
-                    x={node.x}
-                    y={node.y + 35}
-                    textAnchor="middle"
-                    className="text-xs fill-muted-foreground"
-                  >
-                    {state.current === node.id ? `d=${state.currentDepth}` : ''}
-                  </text>
-                </g>
-              ))}
-            </svg>
+            <GraphCanvas
+              graph={graph}
+              directed={directed}
+              nodeClassName={getNodeColor}
+              endpoints={endpoints}
+              highlightedPath={currentPath}
+              nodeLabel={nodeId => (state.current?.id === nodeId ? `d=${currentDepth}` : '')}
+              viewKey={loads}
+              onGraphChange={next => restart(next, reconcileEndpoints(next, endpoints))}
+              onEndpointsChange={next => restart(graph, next)}
+              onDirectedChange={next => restart(next ? graph : symmetrize(graph), endpoints, next)}
+            />
           </CardContent>
         </Card>
 
@@ -243,25 +165,25 @@ const DepthLimitedSearch = () => {
             <div>
               <p className="font-semibold mb-2">Step: {state.step}</p>
               <p className="text-sm text-muted-foreground">
-                Current Node: <span className="font-mono bg-accent px-2 py-1 rounded">{state.current || 'None'}</span>
+                Current Node: <span className="font-mono bg-accent px-2 py-1 rounded">{state.current?.id || 'None'}</span>
               </p>
               <p className="text-sm text-muted-foreground">
-                Current Depth: <span className="font-mono bg-accent px-2 py-1 rounded">{state.currentDepth}</span>
+                Current Depth: <span className="font-mono bg-accent px-2 py-1 rounded">{currentDepth}</span>
               </p>
               <p className="text-sm text-muted-foreground">
-                Depth Limit: <span className="font-mono bg-accent px-2 py-1 rounded">{depthLimit}</span>
+                Depth Limit: <span className="font-mono bg-accent px-2 py-1 rounded">{limit}</span>
               </p>
             </div>
             
             <div>
               <p className="font-semibold mb-2">Stack (with depths):</p>
               <div className="flex flex-col gap-1 max-h-32 overflow-y-auto">
-                {state.stack.slice().reverse().map((item, index) => (
+                {state.frontier.slice().reverse().map((item, index) => (
                   <span key={index} className="bg-accent text-accent-foreground px-2 py-1 rounded font-mono text-sm w-fit">
-                    {item.nodeId} (d={item.depth}) {index === 0 ? '← Top' : ''}
+                    {item.id} (d={item.depth}) {index === 0 ? '← Top' : ''}
                   </span>
                 ))}
-                {state.stack.length === 0 && (
+                {state.frontier.length === 0 && (
                   <span className="text-muted-foreground text-sm">Empty</span>
                 )}
               </div>
@@ -270,7 +192,7 @@ const DepthLimitedSearch = () => {
             <div>
               <p className="font-semibold mb-2">Visited:</p>
               <div className="flex gap-2 flex-wrap">
-                {Array.from(state.visited).map(nodeId => (
+                {visitedAt(state).map(nodeId => (
                   <span key={nodeId} className="bg-node-visited text-foreground px-2 py-1 rounded font-mono text-sm">
                     {nodeId}
                   </span>
@@ -281,11 +203,30 @@ const DepthLimitedSearch = () => {
             <div>
               <p className="font-semibold mb-2">Current Path:</p>
               <div className="font-mono text-sm bg-muted p-2 rounded">
-                {state.currentPath.join(' → ') || 'No path yet'}
+                {currentPath.join(' → ') || 'No path yet'}
               </div>
             </div>
 
-            {state.cutoffReached && !isComplete && (
+            {iterative && (
+              <div>
+                <p className="font-semibold mb-2">Iterations:</p>
+                <div className="space-y-1 max-h-32 overflow-y-auto">
+                  {[...deepening.passes, { limit: deepening.limit, expanded: expandedAt(state), result: passResult(state) }].map(pass => (
+                    <div
+                      key={pass.limit}
+                      className={`px-2 py-1 rounded font-mono text-sm ${pass.limit === deepening.limit ? 'bg-accent text-accent-foreground' : 'bg-muted'}`}
+                    >
+                      l={pass.limit}: {pass.expanded.join(' ') || '…'} {pass.result && `(${pass.result})`}
+                    </div>
+                  ))}
+                </div>
+                <p className="text-sm text-muted-foreground mt-2">
+                  Cumulative expansions: <span className="font-mono bg-accent px-2 py-1 rounded">{totalExpanded(deepening)}</span>
+                </p>
+              </div>
+            )}
+
+            {state.cutoffReached && !isComplete && !iterative && (
               <div className="p-4 bg-destructive/20 border border-destructive rounded">
                 <p className="font-semibold text-destructive">Cutoff reached!</p>
                 <p className="text-sm">Some nodes were not explored due to depth limit.</p>
@@ -295,21 +236,53 @@ const DepthLimitedSearch = () => {
             {isComplete && (
               <div className="p-4 bg-node-goal/20 border border-node-goal rounded">
                 <p className="font-semibold text-node-goal">Target found within depth limit!</p>
-                <p className="font-mono mt-2">Path: {state.currentPath.join(' → ')}</p>
-                <p className="font-mono">Depth: {state.currentDepth}</p>
+                <p className="font-mono mt-2">Path: {currentPath.join(' → ')}</p>
+                <p className="font-mono">Depth: {currentDepth}</p>
+                {iterative && (
+                  <p className="font-mono">Total expansions over {deepening.passes.length + 1} iterations: {totalExpanded(deepening)}</p>
+                )}
+              </div>
+            )}
+
+            {exhausted && endpoints.goals.length === 0 && (
+              <div className="p-4 bg-accent/20 border border-accent rounded">
+                <p className="font-semibold">Traversal complete!</p>
+                <p className="text-sm">Visited all {state.visitedCount} nodes reachable from {endpoints.start}.</p>
               </div>
             )}
 
-            {state.stack.length === 0 && !isComplete && (
+            {exhausted && endpoints.goals.length > 0 && (
               <div className="p-4 bg-destructive/20 border border-destructive rounded">
                 <p className="font-semibold text-destructive">Search failed!</p>
-                <p className="text-sm">Target not found within depth limit of {depthLimit}.</p>
+                <p className="text-sm">
+                  {iterative
+                    ? `No cutoff occurred at depth limit ${limit}, so no goal exists at any depth.`
+                    : `Target not found within depth limit of ${depthLimit}.`}
+                </p>
               </div>
             )}
           </CardContent>
         </Card>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Search Tree</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <SearchTree tree={treeAt(state)} currentKey={state.current?.key} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Run Metrics</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <MetricsPanel runs={[{ label: iterative ? 'IDS' : 'DLS', metrics: iterative ? deepeningMetrics : limitedMetrics }]} />
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Algorithm Explanation</CardTitle>
@@ -334,6 +307,13 @@ const DepthLimitedSearch = () => {
               <strong>Complete:</strong> Yes, if solution exists within depth limit<br/>
               <strong>Optimal:</strong> No, does not guarantee shortest path
             </p>
+            <p className="mt-4">
+              <strong>Iterative Deepening (IDS)</strong> runs DLS with limits 0, 1, 2, … until a pass finds
+              the target. A pass that stopped at the limit reports <em>cutoff</em> and triggers a deeper pass;
+              a pass that ran out of nodes without any cutoff reports <em>failure</em>, since no deeper pass
+              could find anything new. Each pass only rejects nodes already on the current path, so IDS finds
+              the shallowest goal with O(bd) memory.
+            </p>
           </div>
         </CardContent>
       </Card>
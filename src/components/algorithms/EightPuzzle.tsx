@@ -1,232 +1,225 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Play, Pause, RotateCcw, Shuffle, SkipForward } from 'lucide-react';
-
-interface PuzzleState {
-  board: number[];
-  emptyPos: number;
-  cost: number;
-  heuristic: number;
-  path: string[];
-  depth: number;
-}
-
-interface SearchState {
-  openList: PuzzleState[];
-  closedList: PuzzleState[];
-  current: PuzzleState | null;
-  step: number;
-  algorithm: 'bfs' | 'dfs' | 'astar';
-}
-
-const EightPuzzle = () => {
-  const goalState = [1, 2, 3, 4, 5, 6, 7, 8, 0];
-  const initialState = [1, 2, 3, 4, 0, 5, 7, 8, 6];
-  
-  const [puzzleState, setPuzzleState] = useState<number[]>(initialState);
-  const [searchState, setSearchState] = useState<SearchState>({
-    openList: [],
-    closedList: [],
-    current: null,
-    step: 0,
-    algorithm: 'bfs',
-  });
-  
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [isComplete, setIsComplete] = useState(false);
-  const [isSolving, setIsSolving] = useState(false);
-
-  const manhattanDistance = (board: number[]): number => {
-    let distance = 0;
-    for (let i = 0; i < 9; i++) {
-      if (board[i] !== 0) {
-        const goalPos = goalState.indexOf(board[i]);
-        const currentRow = Math.floor(i / 3);
-        const currentCol = i % 3;
-        const goalRow = Math.floor(goalPos / 3);
-        const goalCol = goalPos % 3;
-        distance += Math.abs(currentRow - goalRow) + Math.abs(currentCol - goalCol);
-      }
+import { Eye, Film, Pencil, Shuffle, TriangleAlert, X } from 'lucide-react';
+import {
+  INITIAL_BOARD,
+  PUZZLE_SIZES,
+  boardSize,
+  goalBoard,
+  initialBoard,
+  puzzleName,
+  reachableStates,
+  shuffleBoard,
+  unsolvableReason,
+  type PuzzleSize,
+} from '@/lib/puzzle/board';
+import {
+  DEFAULT_EXPRESSION,
+  EXPRESSION_VARIABLES,
+  ExpressionError,
+  HEURISTICS,
+  createHeuristic,
+  heuristicLabel,
+  parseExpression,
+  type HeuristicId,
+} from '@/lib/puzzle/heuristics';
+import {
+  INFORMED_STRATEGIES,
+  MAX_DEPTH_LIMIT,
+  MAX_PUZZLE_STEPS,
+  MAX_WEIGHT,
+  MIN_WEIGHT,
+  PUZZLE_STRATEGIES,
+  STRATEGY_LABELS,
+  idlePuzzleSearch,
+  initPuzzleSearch,
+  isPuzzleSearchDone,
+  movesTo,
+  stepPuzzleSearch,
+  type MoveCost,
+  type PuzzleNode,
+  type PuzzleSnapshot,
+  type PuzzleStrategy,
+} from '@/lib/puzzle/search';
+import type { PuzzleView, ShareableViewProps } from '@/lib/share/url-state';
+import { puzzleCounts, puzzleEntryBytes } from '@/lib/search/metrics';
+import { useSearchHistory } from '@/hooks/use-search-history';
+import { useSearchWorker } from '@/hooks/use-search-worker';
+import { useRunMetrics } from '@/hooks/use-run-metrics';
+import PlaybackControls from '@/components/controls/PlaybackControls';
+import WorkerControls from '@/components/controls/WorkerControls';
+import PuzzleBoardEditor from '@/components/puzzle/PuzzleBoardEditor';
+import SolutionPlayback from '@/components/puzzle/SolutionPlayback';
+import HeuristicPanel from '@/components/puzzle/HeuristicPanel';
+import ListInspector from '@/components/puzzle/ListInspector';
+import MetricsPanel from '@/components/metrics/MetricsPanel';
+
+// Tailwind only ships classes it can see spelled out
+const boardClasses: Record<PuzzleSize, { columns: string; width: string; tile: string }> = {
+  3: { columns: 'grid-cols-3', width: 'w-48', tile: 'text-xl' },
+  4: { columns: 'grid-cols-4', width: 'w-64', tile: 'text-lg' },
+  5: { columns: 'grid-cols-5', width: 'w-72', tile: 'text-base' },
+};
+
+const limitLabels: Partial<Record<PuzzleStrategy, string>> = {
+  ids: 'Current pass limit',
+  idastar: 'Current f-cost bound',
+};
+
+const formatCount = (count: number) => (count < 1e9 ? count.toLocaleString() : count.toExponential(2));
+
+const EightPuzzle = ({ initialView, onViewChange }: ShareableViewProps<PuzzleView>) => {
+  const [puzzleState, setPuzzleState] = useState<number[]>(initialView?.board ?? INITIAL_BOARD);
+  const [isSolving, setIsSolving] = useState(initialView !== undefined && initialView.step !== null);
+  const [goalState, setGoalState] = useState<number[]>(() => initialView?.goal ?? goalBoard(boardSize(puzzleState)));
+  const [isEditing, setIsEditing] = useState(false);
+  const [showSolution, setShowSolution] = useState(false);
+  const [depthLimit, setDepthLimit] = useState(initialView?.depthLimit ?? 20);
+  const [moveCost, setMoveCost] = useState<MoveCost>(initialView?.moveCost ?? 'unit');
+  const [heuristicId, setHeuristicId] = useState<HeuristicId>(initialView?.heuristic ?? 'manhattan');
+  const [expression, setExpression] = useState(initialView?.expression ?? DEFAULT_EXPRESSION);
+  const [weight, setWeight] = useState(initialView?.weight ?? 2);
+  const [preview, setPreview] = useState<{ snapshot: PuzzleSnapshot; node: PuzzleNode } | null>(null);
+  const worker = useSearchWorker<PuzzleSnapshot>();
+  // A background run keeps the settings it was started with, so they stay put until it ends
+  const isLocked = isSolving || worker.isRunning;
+  const size = boardSize(puzzleState) as PuzzleSize;
+  // Checked up front: an unsolvable board would make the search exhaust half of all boards before giving up
+  const unsolvable = unsolvableReason(puzzleState, goalState);
+
+  const expressionProblems = useMemo(() => {
+    try {
+      parseExpression(expression);
+      return [];
+    } catch (error) {
+      return error instanceof ExpressionError ? error.problems : [String(error)];
     }
-    return distance;
-  };
+  }, [expression]);
+  // A custom expression that does not compile leaves no heuristic to search with
+  const heuristic = useMemo(
+    () => (heuristicId === 'custom' && expressionProblems.length > 0 ? null : createHeuristic(heuristicId, goalState, expression)),
+    [heuristicId, goalState, expression, expressionProblems],
+  );
+  const searchOptions = (strategy: PuzzleStrategy) => ({
+    strategy,
+    moveCost,
+    depthLimit,
+    heuristic: heuristic ?? undefined,
+    weight,
+  });
 
   const isGoalState = (board: number[]): boolean => {
     return board.every((val, idx) => val === goalState[idx]);
   };
 
-  const getSuccessors = (state: PuzzleState): PuzzleState[] => {
-    const successors: PuzzleState[] = [];
-    const emptyPos = state.emptyPos;
-    const row = Math.floor(emptyPos / 3);
-    const col = emptyPos % 3;
-    
-    const moves = [
-      { dr: -1, dc: 0, name: 'UP' },
-      { dr: 1, dc: 0, name: 'DOWN' },
-      { dr: 0, dc: -1, name: 'LEFT' },
-      { dr: 0, dc: 1, name: 'RIGHT' },
-    ];
-
-    moves.forEach(move => {
-      const newRow = row + move.dr;
-      const newCol = col + move.dc;
-      
-      if (newRow >= 0 && newRow < 3 && newCol >= 0 && newCol < 3) {
-        const newEmptyPos = newRow * 3 + newCol;
-        const newBoard = [...state.board];
-        
-        // Swap empty space with tile
-        [newBoard[emptyPos], newBoard[newEmptyPos]] = [newBoard[newEmptyPos], newBoard[emptyPos]];
-        
-        const newState: PuzzleState = {
-          board: newBoard,
-          emptyPos: newEmptyPos,
-          cost: state.cost + 1,
-          heuristic: manhattanDistance(newBoard),
-          path: [...state.path, move.name],
-          depth: state.depth + 1,
-        };
-        
-        successors.push(newState);
-      }
-    });
+  const shuffle = () => {
+    if (isLocked) return;
     
-    return successors;
+    setPuzzleState(shuffleBoard(goalState, 50));
+    resetSearch();
   };
 
-  const boardsEqual = (board1: number[], board2: number[]): boolean => {
-    return board1.every((val, idx) => val === board2[idx]);
+  const changeSize = (nextSize: PuzzleSize) => {
+    setPuzzleState(initialBoard(nextSize));
+    setGoalState(goalBoard(nextSize));
+    resetSearch();
   };
 
-  const shuffle = () => {
-    if (isSolving) return;
-    
-    let newBoard = [...goalState];
-    const emptyPos = newBoard.indexOf(0);
-    
-    // Perform 50 random valid moves
-    let currentEmpty = emptyPos;
-    for (let i = 0; i < 50; i++) {
-      const row = Math.floor(currentEmpty / 3);
-      const col = currentEmpty % 3;
-      const validMoves = [];
-      
-      if (row > 0) validMoves.push(currentEmpty - 3); // UP
-      if (row < 2) validMoves.push(currentEmpty + 3); // DOWN
-      if (col > 0) validMoves.push(currentEmpty - 1); // LEFT
-      if (col < 2) validMoves.push(currentEmpty + 1); // RIGHT
-      
-      const randomMove = validMoves[Math.floor(Math.random() * validMoves.length)];
-      [newBoard[currentEmpty], newBoard[randomMove]] = [newBoard[randomMove], newBoard[currentEmpty]];
-      currentEmpty = randomMove;
-    }
-    
-    setPuzzleState(newBoard);
+  const applyBoards = (board: number[], goal: number[]) => {
+    setPuzzleState(board);
+    setGoalState(goal);
+    setIsEditing(false);
     resetSearch();
   };
 
   const resetSearch = () => {
-    setSearchState({
-      openList: [],
-      closedList: [],
-      current: null,
-      step: 0,
-      algorithm: searchState.algorithm,
-    });
-    setIsComplete(false);
-    setIsPlaying(false);
+    worker.clear();
+    history.reset(idlePuzzleSearch(searchState.strategy));
     setIsSolving(false);
+    setShowSolution(false);
   };
 
   const startSolve = () => {
-    if (isGoalState(puzzleState)) return;
+    if (isGoalState(puzzleState) || unsolvable || !heuristic) return;
     
-    const emptyPos = puzzleState.indexOf(0);
-    const initialPuzzleState: PuzzleState = {
-      board: puzzleState,
-      emptyPos,
-      cost: 0,
-      heuristic: manhattanDistance(puzzleState),
-      path: [],
-      depth: 0,
-    };
-    
-    setSearchState({
-      openList: [initialPuzzleState],
-      closedList: [],
-      current: null,
-      step: 0,
-      algorithm: searchState.algorithm,
-    });
+    history.reset(initPuzzleSearch(puzzleState, goalState, searchOptions(searchState.strategy)));
     setIsSolving(true);
-    setIsComplete(false);
   };
 
-  const step = () => {
-    if (searchState.openList.length === 0 || isComplete) return;
-
-    let nextState: PuzzleState;
-    let newOpenList = [...searchState.openList];
-
-    // Choose next state based on algorithm
-    if (searchState.algorithm === 'bfs') {
-      nextState = newOpenList.shift()!;
-    } else if (searchState.algorithm === 'dfs') {
-      nextState = newOpenList.pop()!;
-    } else { // A*
-      newOpenList.sort((a, b) => (a.cost + a.heuristic) - (b.cost + b.heuristic));
-      nextState = newOpenList.shift()!;
-    }
-
-    const newClosedList = [...searchState.closedList, nextState];
-
-    if (isGoalState(nextState.board)) {
-      setSearchState({
-        ...searchState,
-        openList: newOpenList,
-        closedList: newClosedList,
-        current: nextState,
-        step: searchState.step + 1,
-      });
-      setIsComplete(true);
-      setIsPlaying(false);
-      return;
-    }
-
-    // Generate successors
-    const successors = getSuccessors(nextState);
-    
-    successors.forEach(successor => {
-      const inClosed = newClosedList.some(state => boardsEqual(state.board, successor.board));
-      const inOpen = newOpenList.some(state => boardsEqual(state.board, successor.board));
-      
-      if (!inClosed && !inOpen) {
-        newOpenList.push(successor);
-      }
-    });
+  const solveInBackground = () => {
+    if (isGoalState(puzzleState) || unsolvable || !heuristic) return;
 
-    setSearchState({
-      openList: newOpenList,
-      closedList: newClosedList,
-      current: nextState,
-      step: searchState.step + 1,
-      algorithm: searchState.algorithm,
-    });
+    const { strategy } = searchState;
+    worker.start(
+      {
+        kind: 'puzzle',
+        board: puzzleState,
+        goal: goalState,
+        options: { strategy, moveCost, depthLimit, heuristic: heuristicId, expression, weight },
+        maxLength: MAX_PUZZLE_STEPS + 1,
+      },
+      (snapshots, elapsed) => {
+        history.load(snapshots, elapsed);
+        setIsSolving(true);
+      },
+    );
   };
 
+  const history = useSearchHistory(
+    () =>
+      isSolving
+        ? initPuzzleSearch(puzzleState, goalState, searchOptions(initialView!.strategy))
+        : idlePuzzleSearch(initialView?.strategy ?? 'bfs'),
+    {
+      advance: stepPuzzleSearch,
+      isDone: isPuzzleSearchDone,
+      delay: 500,
+      initialStep: initialView?.step ?? 0,
+      maxLength: MAX_PUZZLE_STEPS + 1,
+    },
+  );
+  const searchState = history.snapshot;
+  const metrics = useRunMetrics(history, puzzleCounts, puzzleEntryBytes(puzzleState.length));
+  const isComplete = searchState.status === 'found';
+  const found = isComplete ? searchState.current : null;
+  const solution = useMemo(() => (found ? movesTo(found) : null), [found]);
+  // A preview belongs to the step it was picked at, so stepping drops it
+  const previewed = preview?.snapshot === searchState ? preview.node : null;
+  const shownBoard = previewed?.board ?? searchState.current?.board ?? puzzleState;
+
   useEffect(() => {
-    if (isPlaying && isSolving && !isComplete) {
-      const timer = setTimeout(step, 500);
-      return () => clearTimeout(timer);
-    }
-  }, [isPlaying, searchState, isComplete, isSolving]);
+    onViewChange?.({
+      board: puzzleState,
+      goal: goalState,
+      strategy: searchState.strategy,
+      moveCost,
+      depthLimit: searchState.strategy === 'dls' ? depthLimit : undefined,
+      heuristic: heuristicId,
+      expression: heuristicId === 'custom' ? expression : undefined,
+      weight: searchState.strategy === 'weighted' ? weight : undefined,
+      step: isSolving ? history.cursor : null,
+    });
+  }, [
+    puzzleState,
+    goalState,
+    searchState.strategy,
+    moveCost,
+    depthLimit,
+    heuristicId,
+    expression,
+    weight,
+    isSolving,
+    history.cursor,
+    onViewChange,
+  ]);
 
   const getTileColor = (value: number, position: number): string => {
     if (value === 0) return 'bg-muted';
-    if (searchState.current && searchState.current.board[position] !== puzzleState[position]) {
+    if (shownBoard !== puzzleState && shownBoard[position] !== puzzleState[position]) {
       return 'bg-node-current';
     }
     return 'bg-accent hover:bg-accent/80';
@@ -235,65 +228,208 @@ const EightPuzzle = () => {
   return (
     <div className="space-y-6">
       <div className="flex gap-4 items-center flex-wrap">
-        <Button onClick={shuffle} disabled={isSolving} variant="outline" size="sm">
+        <Select
+          value={String(size)}
+          onValueChange={(value: string) => changeSize(Number(value) as PuzzleSize)}
+          disabled={isLocked || isEditing}
+        >
+          <SelectTrigger className="w-36" title="Board size">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PUZZLE_SIZES.map(option => (
+              <SelectItem key={option} value={String(option)}>
+                {option}×{option} ({puzzleName(option)})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={shuffle} disabled={isLocked || isEditing} variant="outline" size="sm">
           <Shuffle className="w-4 h-4 mr-2" />
           Shuffle
         </Button>
+        <Button onClick={() => setIsEditing(true)} disabled={isLocked || isEditing} variant="outline" size="sm">
+          <Pencil className="w-4 h-4 mr-2" />
+          Edit Boards
+        </Button>
         <Select 
-          value={searchState.algorithm} 
-          onValueChange={(value: 'bfs' | 'dfs' | 'astar') => 
-            setSearchState({...searchState, algorithm: value})
+          value={searchState.strategy} 
+          onValueChange={(value: PuzzleStrategy) => 
+            history.reset(idlePuzzleSearch(value))
           }
-          disabled={isSolving}
+          disabled={isLocked}
         >
-          <SelectTrigger className="w-32">
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PUZZLE_STRATEGIES.map(strategy => (
+              <SelectItem key={strategy} value={strategy}>
+                {STRATEGY_LABELS[strategy]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {searchState.strategy === 'dls' && (
+          <div className="flex items-center gap-2">
+            <Label htmlFor="puzzle-depth-limit">Depth Limit:</Label>
+            <Input
+              id="puzzle-depth-limit"
+              type="number"
+              min="0"
+              max={MAX_DEPTH_LIMIT}
+              value={depthLimit}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setDepthLimit(Math.max(0, Math.min(MAX_DEPTH_LIMIT, parseInt(e.target.value) || 0)))
+              }
+              className="w-20"
+              disabled={isLocked}
+            />
+          </div>
+        )}
+        <Select value={moveCost} onValueChange={(value: MoveCost) => setMoveCost(value)} disabled={isLocked}>
+          <SelectTrigger className="w-40" title="Cost of each move">
             <SelectValue />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="bfs">BFS</SelectItem>
-            <SelectItem value="dfs">DFS</SelectItem>
-            <SelectItem value="astar">A*</SelectItem>
+            <SelectItem value="unit">Every move costs 1</SelectItem>
+            <SelectItem value="tile">Move costs tile number</SelectItem>
           </SelectContent>
         </Select>
-        <Button onClick={startSolve} disabled={isSolving || isGoalState(puzzleState)} variant="default" size="sm">
+        <Button
+          onClick={startSolve}
+          disabled={isLocked || isEditing || isGoalState(puzzleState) || unsolvable !== null || heuristic === null}
+          variant="default"
+          size="sm"
+        >
           Start Solve
         </Button>
-        {isSolving && (
-          <>
-            <Button
-              onClick={() => setIsPlaying(!isPlaying)}
-              disabled={isComplete}
-              variant="default"
-              size="sm"
-            >
-              {isPlaying ? <Pause className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
-              {isPlaying ? 'Pause' : 'Play'}
-            </Button>
-            <Button onClick={step} disabled={isPlaying || isComplete} variant="outline" size="sm">
-              <SkipForward className="w-4 h-4 mr-2" />
-              Step
-            </Button>
-          </>
+        <WorkerControls
+          worker={worker}
+          onRun={solveInBackground}
+          disabled={isSolving || isEditing || isGoalState(puzzleState) || unsolvable !== null || heuristic === null}
+        />
+      </div>
+
+      <div className="flex gap-4 items-start flex-wrap">
+        <Select value={heuristicId} onValueChange={(value: HeuristicId) => setHeuristicId(value)} disabled={isLocked}>
+          <SelectTrigger className="w-48" title="Heuristic">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {HEURISTICS.map(info => (
+              <SelectItem key={info.id} value={info.id}>
+                {info.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {heuristicId === 'custom' && (
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="puzzle-expression">h =</Label>
+              <Input
+                id="puzzle-expression"
+                value={expression}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setExpression(e.target.value)}
+                className="w-64 font-mono"
+                disabled={isLocked}
+              />
+            </div>
+            {expressionProblems.length > 0 ? (
+              <ul className="list-disc ml-5 text-sm text-destructive">
+                {expressionProblems.map((problem, index) => (
+                  <li key={index}>{problem}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Use {EXPRESSION_VARIABLES.join(', ')}, numbers, + - * /, parentheses and max, min, abs.
+              </p>
+            )}
+          </div>
+        )}
+        {searchState.strategy === 'weighted' && (
+          <div className="flex items-center gap-2">
+            <Label htmlFor="puzzle-weight">Weight:</Label>
+            <Input
+              id="puzzle-weight"
+              type="number"
+              min={MIN_WEIGHT}
+              max={MAX_WEIGHT}
+              step="0.5"
+              value={weight}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setWeight(Math.max(MIN_WEIGHT, Math.min(MAX_WEIGHT, parseFloat(e.target.value) || MIN_WEIGHT)))
+              }
+              className="w-20"
+              disabled={isLocked}
+            />
+          </div>
         )}
-        <Button onClick={resetSearch} variant="outline" size="sm">
-          <RotateCcw className="w-4 h-4 mr-2" />
-          Reset
-        </Button>
       </div>
 
+      {isEditing && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Edit Boards</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PuzzleBoardEditor
+              board={puzzleState}
+              goal={goalState}
+              onApply={applyBoards}
+              onCancel={() => setIsEditing(false)}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {unsolvable && (
+        <div className="p-4 bg-destructive/20 border border-destructive rounded">
+          <p className="font-semibold text-destructive">This board cannot be solved.</p>
+          <p className="text-sm">{unsolvable}</p>
+        </div>
+      )}
+
+      {size > 3 && (
+        <div className="flex gap-2 items-start p-3 bg-destructive/10 border border-destructive rounded text-sm">
+          <TriangleAlert className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />
+          <p>
+            The {puzzleName(size)} has {formatCount(reachableStates(size))} reachable boards.
+            {INFORMED_STRATEGIES.includes(searchState.strategy)
+              ? ` ${STRATEGY_LABELS[searchState.strategy]} copes with boards a few dozen moves from the goal, but a thorough shuffle can still take longer than you want to wait.`
+              : ` ${STRATEGY_LABELS[searchState.strategy]} will not finish unless the board is only a handful of moves from the goal; use an informed strategy such as A* for anything else.`}
+          </p>
+        </div>
+      )}
+
+      <PlaybackControls history={history} onReset={resetSearch} />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card>
           <CardHeader>
-            <CardTitle>8-Puzzle Board</CardTitle>
+            <CardTitle>{puzzleName(size)} Board</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              <div className="grid grid-cols-3 gap-2 w-48 mx-auto">
-                {(searchState.current ? searchState.current.board : puzzleState).map((value, index) => (
+              {previewed && (
+                <div className="flex items-center justify-between gap-2 p-2 text-sm bg-accent/30 border border-border rounded">
+                  <span className="flex items-center">
+                    <Eye className="w-4 h-4 mr-2" />
+                    Previewing a board at depth {previewed.depth}, g = {previewed.cost}, h = {previewed.heuristic}
+                  </span>
+                  <Button onClick={() => setPreview(null)} variant="ghost" size="sm" title="Back to the current board">
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+              <div className={`grid ${boardClasses[size].columns} ${boardClasses[size].width} gap-2 mx-auto`}>
+                {shownBoard.map((value, index) => (
                   <div
                     key={index}
                     className={`
-                      aspect-square flex items-center justify-center text-xl font-bold rounded-lg border-2
+                      aspect-square flex items-center justify-center ${boardClasses[size].tile} font-bold rounded-lg border-2
                       ${getTileColor(value, index)}
                       ${value === 0 ? 'border-border' : 'border-border cursor-pointer'}
                       transition-all duration-300
@@ -305,12 +441,26 @@ const EightPuzzle = () => {
               </div>
               
               <div className="text-center text-sm text-muted-foreground">
-                {isGoalState(searchState.current ? searchState.current.board : puzzleState) ? (
+                {isGoalState(shownBoard) ? (
                   <span className="text-node-goal font-semibold">🎉 Puzzle Solved! 🎉</span>
                 ) : (
-                  `Heuristic (Manhattan Distance): ${manhattanDistance(searchState.current ? searchState.current.board : puzzleState)}`
+                  `Heuristic (${heuristicLabel(heuristicId)}): ${heuristic ? heuristic(shownBoard) : '–'}`
                 )}
               </div>
+
+              <div className="flex items-center justify-center gap-3 text-sm text-muted-foreground">
+                Goal:
+                <div className={`grid ${boardClasses[size].columns} gap-0.5 w-24`}>
+                  {goalState.map((value, index) => (
+                    <div
+                      key={index}
+                      className={`aspect-square flex items-center justify-center text-xs rounded ${value === 0 ? 'bg-muted' : 'bg-node-goal/20'}`}
+                    >
+                      {value !== 0 && value}
+                    </div>
+                  ))}
+                </div>
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -321,10 +471,16 @@ const EightPuzzle = () => {
           </CardHeader>
           <CardContent className="space-y-4">
             <div>
-              <p className="font-semibold mb-2">Algorithm: {searchState.algorithm.toUpperCase()}</p>
+              <p className="font-semibold mb-2">Algorithm: {STRATEGY_LABELS[searchState.strategy]}</p>
               <p className="text-sm text-muted-foreground">
                 Step: <span className="font-mono bg-accent px-2 py-1 rounded">{searchState.step}</span>
               </p>
+              {isSolving && searchState.limit !== null && (
+                <p className="text-sm text-muted-foreground mt-2">
+                  {limitLabels[searchState.strategy] ?? 'Depth limit'}:{' '}
+                  <span className="font-mono bg-accent px-2 py-1 rounded">{searchState.limit}</span>
+                </p>
+              )}
             </div>
 
             {isSolving && searchState.current && (
@@ -340,31 +496,44 @@ const EightPuzzle = () => {
                   <p className="text-sm text-muted-foreground">
                     Heuristic: <span className="font-mono bg-accent px-2 py-1 rounded">{searchState.current.heuristic}</span>
                   </p>
-                  {searchState.algorithm === 'astar' && (
+                  {searchState.direction && (
+                    <p className="text-sm text-muted-foreground">
+                      Expanded from the {searchState.direction === 'forward' ? 'start' : 'goal'} side
+                    </p>
+                  )}
+                  {(searchState.strategy === 'astar' || searchState.strategy === 'idastar') && (
                     <p className="text-sm text-muted-foreground">
                       f(n) = g(n) + h(n): <span className="font-mono bg-accent px-2 py-1 rounded">{searchState.current.cost + searchState.current.heuristic}</span>
                     </p>
                   )}
+                  {searchState.strategy === 'weighted' && searchState.run && (
+                    <p className="text-sm text-muted-foreground">
+                      f(n) = g(n) + {searchState.run.weight} × h(n):{' '}
+                      <span className="font-mono bg-accent px-2 py-1 rounded">
+                        {searchState.current.cost + searchState.run.weight * searchState.current.heuristic}
+                      </span>
+                    </p>
+                  )}
                 </div>
 
                 <div>
                   <p className="font-semibold mb-2">Open List Size:</p>
                   <span className="bg-accent text-accent-foreground px-2 py-1 rounded font-mono text-sm">
-                    {searchState.openList.length}
+                    {searchState.openSize.toLocaleString()}
                   </span>
                 </div>
 
                 <div>
                   <p className="font-semibold mb-2">Closed List Size:</p>
                   <span className="bg-node-visited text-foreground px-2 py-1 rounded font-mono text-sm">
-                    {searchState.closedList.length}
+                    {searchState.closedSize.toLocaleString()}
                   </span>
                 </div>
 
                 <div>
                   <p className="font-semibold mb-2">Move Sequence:</p>
                   <div className="font-mono text-sm bg-muted p-2 rounded max-h-20 overflow-y-auto">
-                    {searchState.current.path.join(' → ') || 'Starting position'}
+                    {movesTo(searchState.current).join(' → ') || 'Starting position'}
                   </div>
                 </div>
               </>
@@ -373,23 +542,100 @@ const EightPuzzle = () => {
             {isComplete && searchState.current && (
               <div className="p-4 bg-node-goal/20 border border-node-goal rounded">
                 <p className="font-semibold text-node-goal">Puzzle solved!</p>
-                <p className="font-mono mt-2">Solution found in {searchState.current.depth} moves</p>
-                <p className="font-mono">States explored: {searchState.closedList.length}</p>
+                <p className="font-mono mt-2">
+                  Solution found in {searchState.current.depth} moves
+                  {moveCost === 'tile' && ` costing ${searchState.current.cost}`}
+                </p>
+                <p className="font-mono">States explored: {searchState.closedSize.toLocaleString()}</p>
+                <Button onClick={() => setShowSolution(true)} disabled={showSolution} variant="outline" size="sm" className="mt-3">
+                  <Film className="w-4 h-4 mr-2" />
+                  Play Solution
+                </Button>
+              </div>
+            )}
+
+            {searchState.status === 'exhausted' && (
+              <div className="p-4 bg-accent/20 border border-accent rounded">
+                {searchState.cutoffReached ? (
+                  <>
+                    <p className="font-semibold">Cutoff reached</p>
+                    <p className="text-sm">The goal may lie deeper than the limit of {searchState.limit} moves.</p>
+                  </>
+                ) : (
+                  <p className="font-semibold">Every reachable board was explored without finding the goal.</p>
+                )}
               </div>
             )}
           </CardContent>
         </Card>
       </div>
 
+      {isSolving && searchState.run && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Open and Closed Lists</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ListInspector
+              snapshot={searchState}
+              previewed={previewed}
+              onPreview={(node: PuzzleNode | null) => setPreview(node && { snapshot: searchState, node })}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {isSolving && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Run Metrics</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <MetricsPanel runs={[{ label: STRATEGY_LABELS[searchState.strategy], metrics }]} />
+          </CardContent>
+        </Card>
+      )}
+
+      {INFORMED_STRATEGIES.includes(searchState.strategy) && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Heuristics</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <HeuristicPanel
+              board={puzzleState}
+              goal={goalState}
+              options={searchOptions(searchState.strategy)}
+              expression={expressionProblems.length === 0 ? expression : null}
+              selected={heuristicId}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {showSolution && solution && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Solution Playback</CardTitle>
+            <Button onClick={() => setShowSolution(false)} variant="ghost" size="sm" title="Close">
+              <X className="w-4 h-4" />
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <SolutionPlayback board={puzzleState} moves={solution} />
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
-          <CardTitle>8-Puzzle Problem Explanation</CardTitle>
+          <CardTitle>{puzzleName(size)} Problem Explanation</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="prose prose-sm max-w-none">
             <p className="mb-4">
-              The <strong>8-Puzzle</strong> is a classic sliding puzzle that consists of a 3×3 grid with 
-              eight numbered tiles and one empty space. The goal is to arrange the tiles in numerical order.
+              The <strong>{puzzleName(size)}</strong> is a classic sliding puzzle that consists of a {size}×{size} grid
+              with {size * size - 1} numbered tiles and one empty space. The goal is to arrange the tiles in numerical order.
             </p>
             
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 my-4">
@@ -397,7 +643,7 @@ const EightPuzzle = () => {
                 <h4 className="font-semibold mb-2">BFS Approach:</h4>
                 <ul className="text-sm space-y-1">
                   <li>• Explores all states at depth d before depth d+1</li>
-                  <li>• Guarantees optimal solution</li>
+                  <li>• Finds the fewest moves, which is only the cheapest solution when every move costs 1</li>
                   <li>• High memory usage</li>
                 </ul>
               </div>
@@ -411,19 +657,84 @@ const EightPuzzle = () => {
                 </ul>
               </div>
               
+              <div>
+                <h4 className="font-semibold mb-2">DLS Approach:</h4>
+                <ul className="text-sm space-y-1">
+                  <li>• DFS that never goes deeper than a fixed limit</li>
+                  <li>• Cannot wander off into endless move sequences</li>
+                  <li>• Misses any solution longer than the limit</li>
+                </ul>
+              </div>
+
+              <div>
+                <h4 className="font-semibold mb-2">IDS Approach:</h4>
+                <ul className="text-sm space-y-1">
+                  <li>• Runs DLS with limits 0, 1, 2, ... until one succeeds</li>
+                  <li>• Finds the fewest moves, like BFS</li>
+                  <li>• Each pass remembers every board it expands, so memory grows like BFS, with repeated work on top</li>
+                </ul>
+              </div>
+
+              <div>
+                <h4 className="font-semibold mb-2">UCS Approach:</h4>
+                <ul className="text-sm space-y-1">
+                  <li>• Always expands the cheapest board found so far</li>
+                  <li>• Finds the cheapest solution under any move costs</li>
+                  <li>• The same as BFS when every move costs 1</li>
+                </ul>
+              </div>
+
+              <div>
+                <h4 className="font-semibold mb-2">Bidirectional BFS Approach:</h4>
+                <ul className="text-sm space-y-1">
+                  <li>• Searches forward from the start and backward from the goal</li>
+                  <li>• Stops where the two searches meet</li>
+                  <li>• Each side only goes half as deep</li>
+                </ul>
+              </div>
+
+              <div>
+                <h4 className="font-semibold mb-2">Greedy Best-First Approach:</h4>
+                <ul className="text-sm space-y-1">
+                  <li>• Always expands the board that looks closest to the goal</li>
+                  <li>• Ignores the moves already made</li>
+                  <li>• Fast, but solutions are often far from optimal</li>
+                </ul>
+              </div>
+
               <div>
                 <h4 className="font-semibold mb-2">A* Approach:</h4>
                 <ul className="text-sm space-y-1">
-                  <li>• Uses Manhattan distance heuristic</li>
-                  <li>• Optimal and efficient</li>
-                  <li>• f(n) = g(n) + h(n)</li>
+                  <li>• Orders boards by f(n) = g(n) + h(n)</li>
+                  <li>• Optimal whenever h is admissible</li>
+                  <li>• Expands fewer boards the better h is</li>
+                </ul>
+              </div>
+
+              <div>
+                <h4 className="font-semibold mb-2">Weighted A* Approach:</h4>
+                <ul className="text-sm space-y-1">
+                  <li>• f(n) = g(n) + w × h(n) with w above 1</li>
+                  <li>• Trades optimality for far fewer expansions</li>
+                  <li>• Solutions cost at most w times the optimum</li>
+                </ul>
+              </div>
+
+              <div>
+                <h4 className="font-semibold mb-2">IDA* Approach:</h4>
+                <ul className="text-sm space-y-1">
+                  <li>• Depth-first passes bounded by f(n) instead of depth</li>
+                  <li>• Each pass raises the bound to the smallest f it cut off</li>
+                  <li>• Optimal like A*, but each pass remembers every board it expands, so memory grows like A*</li>
                 </ul>
               </div>
             </div>
 
             <p className="text-sm text-muted-foreground">
-              <strong>State Space:</strong> 9!/2 = 181,440 possible configurations<br/>
-              <strong>Heuristic:</strong> Manhattan distance (sum of distances each tile is from its goal position)
+              <strong>State Space:</strong> {size * size}!/2 = {formatCount(reachableStates(size))} possible configurations<br/>
+              <strong>Heuristics:</strong> misplaced tiles, Manhattan distance (sum of distances each tile is from its goal position),
+              linear conflict (Manhattan distance plus detours for tiles blocking each other), or your own expression<br/>
+              <strong>Move costs:</strong> with tile-number costs, sliding tile 8 costs 8, so the cheapest solution can take more moves
             </p>
           </div>
         </CardContent>
@@ -0,0 +1,347 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dices, Eraser, Grid3x3 } from 'lucide-react';
+import { initSearch, isFinished, isVisited, pathTo, stepSearch } from '@/lib/search/engine';
+import { COMPARED_ALGORITHMS, type ComparedAlgorithm } from '@/lib/search/comparison';
+import {
+  DEFAULT_WORLD,
+  MAX_GRID_SIZE,
+  MIN_GRID_SIZE,
+  TERRAINS,
+  cellId,
+  cellIndex,
+  createGrid,
+  gridProblem,
+  gridSearchOptions,
+  moveGoal,
+  moveStart,
+  paintCell,
+  resizeGrid,
+  terrainCost,
+  type GridWorld,
+  type Terrain,
+} from '@/lib/grid/world';
+import { DEFAULT_MAZE_OPTIONS, generateMaze } from '@/lib/grid/maze';
+import type { GridView, ShareableViewProps } from '@/lib/share/url-state';
+import { GRAPH_ENTRY_BYTES, searchCounts } from '@/lib/search/metrics';
+import { useSearchHistory } from '@/hooks/use-search-history';
+import { useRunMetrics } from '@/hooks/use-run-metrics';
+import PlaybackControls from '@/components/controls/PlaybackControls';
+import GridCanvas from '@/components/grid/GridCanvas';
+import MetricsPanel from '@/components/metrics/MetricsPanel';
+
+type PaintTool = Terrain | 'start' | 'goal';
+
+const swatches: Record<PaintTool, string> = {
+  open: 'bg-background border',
+  mud: 'bg-amber-700/50',
+  water: 'bg-sky-500/50',
+  wall: 'bg-foreground',
+  start: 'border-2 border-node-start',
+  goal: 'border-2 border-node-goal',
+};
+
+const tools: { tool: PaintTool; label: string }[] = [
+  ...TERRAINS.map(({ terrain, label, cost }) => ({
+    tool: terrain,
+    label: cost === Infinity ? label : `${label} (${cost})`,
+  })),
+  { tool: 'start', label: 'Start' },
+  { tool: 'goal', label: 'Goal' },
+];
+
+const GridPathfinding = ({ initialView, onViewChange }: ShareableViewProps<GridView>) => {
+  const [world, setWorld] = useState<GridWorld>(initialView?.world ?? DEFAULT_WORLD);
+  const [algorithm, setAlgorithm] = useState<ComparedAlgorithm>(initialView?.algorithm ?? 'bfs');
+  const [depthLimit, setDepthLimit] = useState(initialView?.depthLimit ?? 20);
+  const [tool, setTool] = useState<PaintTool>('wall');
+  const [maze, setMaze] = useState(DEFAULT_MAZE_OPTIONS);
+
+  // Only uniform-cost search pays attention to terrain; the others count moves
+  const problem = useMemo(() => gridProblem(world, algorithm === 'ucs'), [world, algorithm]);
+  const history = useSearchHistory(() => initSearch(problem), {
+    advance: snapshot => stepSearch(problem, snapshot, gridSearchOptions(algorithm, depthLimit)),
+    isDone: isFinished,
+    delay: 200,
+    initialStep: initialView?.step,
+  });
+  const state = history.snapshot;
+  const metrics = useRunMetrics(history, searchCounts, GRAPH_ENTRY_BYTES);
+
+  useEffect(() => {
+    const limit = algorithm === 'dls' ? depthLimit : undefined;
+    onViewChange?.({ world, algorithm, depthLimit: limit, step: history.cursor });
+  }, [world, algorithm, depthLimit, history.cursor, onViewChange]);
+
+  const isComplete = state.status === 'found';
+  const currentPath = state.current ? pathTo(state, state.current.id) : [];
+  const pathCells = new Set(currentPath.map(id => cellIndex(world, id)));
+  const frontierCells = new Set(state.frontier.map(node => cellIndex(world, node.id)));
+  const terrainPathCost = currentPath
+    .slice(1)
+    .reduce((total, id) => total + terrainCost(world.cells[cellIndex(world, id)]), 0);
+
+  const reset = () => history.reset(initSearch(problem));
+
+  // Changing the grid or the algorithm invalidates the current run
+  const restart = (nextWorld: GridWorld, nextAlgorithm = algorithm, nextDepthLimit = depthLimit) => {
+    setWorld(nextWorld);
+    setAlgorithm(nextAlgorithm);
+    setDepthLimit(nextDepthLimit);
+    history.reset(initSearch(gridProblem(nextWorld, nextAlgorithm === 'ucs')));
+  };
+
+  const paint = (index: number) => {
+    if (history.isPlaying) return;
+    const next =
+      tool === 'start' ? moveStart(world, index) : tool === 'goal' ? moveGoal(world, index) : paintCell(world, index, tool);
+    if (next !== world) restart(next);
+  };
+
+  const handleSizeChange = (dimension: 'rows' | 'columns') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const size = Math.max(MIN_GRID_SIZE, Math.min(MAX_GRID_SIZE, parseInt(e.target.value) || 0));
+    restart(dimension === 'rows' ? resizeGrid(world, size, world.columns) : resizeGrid(world, world.rows, size));
+  };
+
+  const handleDepthLimitChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const newLimit = parseInt(e.target.value) || 0;
+    restart(world, algorithm, Math.max(0, Math.min(world.cells.length, newLimit)));
+  };
+
+  const overlay = (index: number) => {
+    if (isComplete && pathCells.has(index)) return 'fill-node-goal';
+    if (state.current && cellIndex(world, state.current.id) === index) return 'fill-node-current';
+    if (pathCells.has(index)) return 'fill-node-current/50';
+    if (isVisited(state, cellId(world, index))) return 'fill-node-visited';
+    if (frontierCells.has(index)) return 'fill-accent';
+    return '';
+  };
+
+  const percentField = (key: 'loops' | 'terrain', label: string) => (
+    <div className="flex items-center gap-2">
+      <Label htmlFor={`maze-${key}`}>{label} %:</Label>
+      <Input
+        id={`maze-${key}`}
+        type="number"
+        min="0"
+        max="100"
+        value={Math.round(maze[key] * 100)}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+          setMaze({ ...maze, [key]: Math.max(0, Math.min(100, Number(e.target.value) || 0)) / 100 })
+        }
+        className="w-20"
+        disabled={history.isPlaying}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <PlaybackControls history={history} onReset={reset}>
+        <div className="flex items-center gap-1">
+          {COMPARED_ALGORITHMS.map(({ id, label }) => (
+            <Button
+              key={id}
+              onClick={() => restart(world, id)}
+              disabled={history.isPlaying}
+              variant={algorithm === id ? 'default' : 'outline'}
+              size="sm"
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        {algorithm === 'dls' && (
+          <div className="flex items-center gap-2">
+            <Label htmlFor="grid-depth-limit">Depth Limit:</Label>
+            <Input
+              id="grid-depth-limit"
+              type="number"
+              min="0"
+              max={world.cells.length}
+              value={depthLimit}
+              onChange={handleDepthLimitChange}
+              className="w-20"
+              disabled={history.isPlaying}
+            />
+          </div>
+        )}
+      </PlaybackControls>
+
+      <div className="flex gap-4 items-center flex-wrap">
+        <div className="flex items-center gap-2">
+          <Label htmlFor="grid-rows">Rows:</Label>
+          <Input
+            id="grid-rows"
+            type="number"
+            min={MIN_GRID_SIZE}
+            max={MAX_GRID_SIZE}
+            value={world.rows}
+            onChange={handleSizeChange('rows')}
+            className="w-20"
+            disabled={history.isPlaying}
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="grid-columns">Columns:</Label>
+          <Input
+            id="grid-columns"
+            type="number"
+            min={MIN_GRID_SIZE}
+            max={MAX_GRID_SIZE}
+            value={world.columns}
+            onChange={handleSizeChange('columns')}
+            className="w-20"
+            disabled={history.isPlaying}
+          />
+        </div>
+        <Button
+          onClick={() => restart(createGrid(world.rows, world.columns))}
+          disabled={history.isPlaying}
+          variant="outline"
+          size="sm"
+        >
+          <Eraser className="w-4 h-4 mr-2" />
+          Clear Grid
+        </Button>
+      </div>
+
+      <div className="flex gap-4 items-center flex-wrap">
+        <div className="flex items-center gap-2">
+          <Label htmlFor="maze-seed">Seed:</Label>
+          <Input
+            id="maze-seed"
+            type="number"
+            min="0"
+            value={maze.seed}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setMaze({ ...maze, seed: Math.max(0, Math.floor(Number(e.target.value) || 0)) })
+            }
+            className="w-24"
+            disabled={history.isPlaying}
+          />
+        </div>
+        <Button
+          onClick={() => setMaze({ ...maze, seed: Math.floor(Math.random() * 100000) })}
+          disabled={history.isPlaying}
+          variant="ghost"
+          size="sm"
+          title="Random seed"
+        >
+          <Dices className="w-4 h-4" />
+        </Button>
+        {percentField('loops', 'Loops')}
+        {percentField('terrain', 'Terrain')}
+        <Button
+          onClick={() => restart(generateMaze({ ...maze, rows: world.rows, columns: world.columns }))}
+          disabled={history.isPlaying}
+          variant="outline"
+          size="sm"
+        >
+          <Grid3x3 className="w-4 h-4 mr-2" />
+          Generate Maze
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Grid</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex items-center gap-1 flex-wrap text-sm text-muted-foreground">
+              Paint:
+              {tools.map(({ tool: t, label }) => (
+                <Button key={t} onClick={() => setTool(t)} variant={tool === t ? 'secondary' : 'ghost'} size="sm">
+                  <span className={`inline-block w-3 h-3 mr-2 rounded-sm ${swatches[t]}`} />
+                  {label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Click or drag across cells to paint them. The number after a terrain is the cost of entering it, which only UCS takes into account.
+            </p>
+            <GridCanvas world={world} overlayClassName={overlay} onPaint={history.isPlaying ? undefined : paint} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Algorithm State</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <p className="font-semibold mb-2">Step: {state.step}</p>
+              <p className="text-sm text-muted-foreground">
+                Current Cell: <span className="font-mono bg-accent px-2 py-1 rounded">{state.current?.id || 'None'}</span>
+              </p>
+            </div>
+
+            <div className="text-sm space-y-1">
+              <p>Cells expanded: <span className="font-mono">{state.step}</span></p>
+              <p>Frontier size: <span className="font-mono">{state.frontier.length}</span></p>
+              <p>Path to current cell: <span className="font-mono">{Math.max(0, currentPath.length - 1)} moves, cost {terrainPathCost}</span></p>
+            </div>
+
+            {isComplete && (
+              <div className="p-4 bg-node-goal/20 border border-node-goal rounded">
+                <p className="font-semibold text-node-goal">Goal reached!</p>
+                <p className="font-mono">
+                  {currentPath.length - 1} moves, terrain cost {terrainPathCost}, {state.step} cells expanded
+                </p>
+              </div>
+            )}
+
+            {state.status === 'exhausted' && state.cutoffReached && (
+              <div className="p-4 bg-accent/20 border border-accent rounded">
+                <p className="font-semibold">Cutoff reached</p>
+                <p className="text-sm">The goal may lie deeper than the limit of {depthLimit} moves.</p>
+              </div>
+            )}
+
+            {state.status === 'exhausted' && !state.cutoffReached && (
+              <div className="p-4 bg-destructive/20 border border-destructive rounded">
+                <p className="font-semibold text-destructive">No path!</p>
+                <p className="text-sm">Walls cut the goal off from the start.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Run Metrics</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <MetricsPanel runs={[{ label: COMPARED_ALGORITHMS.find(({ id }) => id === algorithm)!.label, metrics }]} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Algorithm Explanation</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="prose prose-sm max-w-none">
+            <p className="mb-4">
+              A grid is just a graph: every open cell is a node, joined to the open cells above, right of,
+              below and left of it. The searches here are the same ones that run on the graph pages.
+            </p>
+            <ul className="list-disc ml-6 space-y-2">
+              <li><strong>BFS</strong> spreads out in rings and finds the path with the fewest moves</li>
+              <li><strong>DFS</strong> follows one direction until it hits a wall, so its paths wander</li>
+              <li><strong>DLS</strong> is DFS that gives up on any path longer than the depth limit</li>
+              <li><strong>UCS</strong> pays the cost of each cell it enters and finds the cheapest path around mud and water</li>
+            </ul>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default GridPathfinding;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Play, Pause, RotateCcw, SkipBack, SkipForward, StepBack, StepForward } from 'lucide-react';
+import { PLAYBACK_SPEEDS, type PlaybackSpeed, type SearchHistory } from '@/hooks/use-search-history';
+import { PLAYBACK_SHORTCUTS, usePlaybackShortcuts } from '@/hooks/use-playback-shortcuts';
+
+interface PlaybackControlsProps {
+  history: SearchHistory;
+  onReset: () => void;
+  children?: React.ReactNode;
+}
+
+const speedLabel = (speed: PlaybackSpeed) => (speed === Infinity ? 'Instant' : `${speed}x`);
+
+const PlaybackControls = ({ history, onReset, children }: PlaybackControlsProps) => {
+  usePlaybackShortcuts(history, onReset);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-4 items-center flex-wrap">
+        <Button
+          onClick={history.togglePlaying}
+          title="Play / pause (Space)"
+          disabled={!history.canStepForward}
+          variant="default"
+          size="sm"
+        >
+          {history.isPlaying ? <Pause className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
+          {history.isPlaying ? 'Pause' : 'Play'}
+        </Button>
+        <div className="flex gap-1">
+          <Button onClick={history.jumpToStart} disabled={history.cursor === 0} variant="outline" size="sm" title="Jump to start">
+            <SkipBack className="w-4 h-4" />
+          </Button>
+          <Button onClick={history.stepBack} disabled={history.cursor === 0} variant="outline" size="sm" title="Step back (←)">
+            <StepBack className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+          <Button onClick={history.stepForward} disabled={history.isPlaying || !history.canStepForward} variant="outline" size="sm" title="Step forward (→)">
+            <StepForward className="w-4 h-4 mr-2" />
+            Step
+          </Button>
+          <Button onClick={history.jumpToEnd} disabled={!history.canStepForward} variant="outline" size="sm" title="Jump to end">
+            <SkipForward className="w-4 h-4" />
+          </Button>
+        </div>
+        <Select
+          value={String(history.speed)}
+          onValueChange={(value: string) => history.setSpeed(Number(value) as PlaybackSpeed)}
+        >
+          <SelectTrigger className="w-28" title="Playback speed">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PLAYBACK_SPEEDS.map(speed => (
+              <SelectItem key={speed} value={String(speed)}>
+                {speedLabel(speed)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={onReset} variant="outline" size="sm" title="Reset (R)">
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset
+        </Button>
+        {children}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <span className="text-xs text-muted-foreground font-mono w-24">
+          Step {history.cursor} / {history.length - 1}
+        </span>
+        <Slider
+          value={[history.cursor]}
+          min={0}
+          max={Math.max(1, history.length - 1)}
+          step={1}
+          onValueChange={([index]: number[]) => history.seek(index)}
+          disabled={history.length < 2}
+          className="flex-1"
+        />
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {PLAYBACK_SHORTCUTS.map(({ key, action }) => (
+          <span key={key} className="mr-4">
+            <kbd className="font-mono bg-muted px-1 rounded">{key}</kbd> {action}
+          </span>
+        ))}
+      </p>
+    </div>
+  );
+};
+
+export default PlaybackControls;
@@ -0,0 +1,48 @@
+import { Button } from '@/components/ui/button';
+import { Cpu, Square } from 'lucide-react';
+import type { SearchWorker } from '@/hooks/use-search-worker';
+import { formatElapsed } from '@/lib/search/metrics';
+
+interface WorkerControlsProps {
+  worker: SearchWorker;
+  onRun: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Starts a run in the background worker and reports on it: live counts while
+ * it runs, with a button to cancel, and how long it took once its trace is
+ * loaded for replay.
+ */
+const WorkerControls = ({ worker, onRun, disabled }: WorkerControlsProps) => {
+  const { progress, result, error } = worker;
+
+  return (
+    <div className="flex gap-3 items-center flex-wrap">
+      {progress ? (
+        <Button onClick={worker.cancel} variant="outline" size="sm" title="Stop the background run">
+          <Square className="w-4 h-4 mr-2" />
+          Cancel
+        </Button>
+      ) : (
+        <Button onClick={onRun} disabled={disabled} variant="outline" size="sm" title="Run to the end off the page, then replay">
+          <Cpu className="w-4 h-4 mr-2" />
+          Run in Background
+        </Button>
+      )}
+      {progress && (
+        <span className="text-sm text-muted-foreground font-mono">
+          {progress.expanded.toLocaleString()} expanded · frontier {progress.frontier.toLocaleString()} · {formatElapsed(progress.elapsed)}
+        </span>
+      )}
+      {!progress && result && (
+        <span className="text-sm text-muted-foreground">
+          {result.steps.toLocaleString()} steps in {formatElapsed(result.elapsed)}, ready to replay
+        </span>
+      )}
+      {!progress && error && <span className="text-sm text-destructive">{error}</span>}
+    </div>
+  );
+};
+
+export default WorkerControls;
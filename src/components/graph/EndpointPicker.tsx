@@ -0,0 +1,63 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toggleGoal, type Endpoints } from '@/lib/search/graph';
+import type { GraphNode } from '@/lib/graph/model';
+
+interface EndpointPickerProps {
+  graph: GraphNode[];
+  endpoints: Endpoints;
+  onChange: (endpoints: Endpoints) => void;
+  disabled?: boolean;
+  singleGoal?: boolean;
+}
+
+const EndpointPicker = ({ graph, endpoints, onChange, disabled = false, singleGoal = false }: EndpointPickerProps) => (
+  <div className="flex gap-4 items-center flex-wrap">
+    <div className="flex items-center gap-2">
+      <Label>Start:</Label>
+      <Select
+        value={endpoints.start}
+        onValueChange={(start: string) => onChange({ ...endpoints, start })}
+        disabled={disabled}
+      >
+        <SelectTrigger className="w-20">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {graph.map(node => (
+            <SelectItem key={node.id} value={node.id}>{node.id}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+
+    <div className="flex items-center gap-2 flex-wrap">
+      <Label>{singleGoal ? 'Goal:' : 'Goals:'}</Label>
+      {graph.map(node => (
+        <Button
+          key={node.id}
+          onClick={() => onChange(singleGoal ? { ...endpoints, goals: [node.id] } : toggleGoal(endpoints, node.id))}
+          disabled={disabled}
+          variant={endpoints.goals.includes(node.id) ? 'default' : 'outline'}
+          size="sm"
+          className="px-2 font-mono"
+        >
+          {node.id}
+        </Button>
+      ))}
+      {!singleGoal && (
+        <Button
+          onClick={() => onChange({ ...endpoints, goals: [] })}
+          disabled={disabled}
+          variant={endpoints.goals.length === 0 ? 'secondary' : 'ghost'}
+          size="sm"
+        >
+          No goal (traverse all)
+        </Button>
+      )}
+    </div>
+  </div>
+);
+
+export default EndpointPicker;
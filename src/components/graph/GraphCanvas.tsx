@@ -0,0 +1,406 @@
+import React, { useId, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Move, Plus, Spline, Trash2, Pencil, Check, ZoomIn, ZoomOut, Maximize, ArrowRight } from 'lucide-react';
+import { CANVAS_HEIGHT, NODE_RADIUS, edgeSegments, graphBounds, hasEdge, type GraphNode } from '@/lib/graph/model';
+import { addNode, disconnectNodes, moveNode, removeNode, setEdgeCost, toggleEdge } from '@/lib/graph/editing';
+import { LAYOUTS, layoutGraph, type LayoutKind } from '@/lib/graph/layout';
+import { toggleGoal, type Endpoints } from '@/lib/search/graph';
+import { usePanZoom } from '@/hooks/use-pan-zoom';
+
+type EditorTool = 'move' | 'add' | 'connect' | 'delete';
+type PickMode = 'start' | 'goal';
+
+interface GraphCanvasProps {
+  graph: GraphNode[];
+  nodeClassName: (nodeId: string) => string;
+  nodeLabel?: (nodeId: string) => string;
+  weighted?: boolean;
+  /** Draws every edge as a one-way arrow and edits only the clicked direction. */
+  directed?: boolean;
+  endpoints?: Endpoints;
+  highlightedPath?: readonly string[];
+  /** Changes when the visualizer loads a different graph, which refits the view. */
+  viewKey?: number;
+  onGraphChange?: (graph: GraphNode[]) => void;
+  onEndpointsChange?: (endpoints: Endpoints) => void;
+  onDirectedChange?: (directed: boolean) => void;
+}
+
+const tools: { tool: EditorTool; label: string; icon: typeof Move }[] = [
+  { tool: 'move', label: 'Move', icon: Move },
+  { tool: 'add', label: 'Add Node', icon: Plus },
+  { tool: 'connect', label: 'Connect', icon: Spline },
+  { tool: 'delete', label: 'Delete', icon: Trash2 },
+];
+
+const toolHints: Record<EditorTool, string> = {
+  move: 'Drag nodes to reposition them.',
+  add: 'Click an empty spot to add a node.',
+  connect: 'Click two nodes to connect them, or two connected nodes to disconnect them.',
+  delete: 'Click a node or an edge to remove it.',
+};
+
+// Opposite arcs between the same two nodes are pulled apart so both arrows stay visible
+const ARC_OFFSET = 6;
+const ARROW_SIZE = 8;
+
+const arcGeometry = (from: GraphNode, to: GraphNode, offset: number) => {
+  const length = Math.max(0.01, Math.hypot(to.x - from.x, to.y - from.y));
+  const ux = (to.x - from.x) / length;
+  const uy = (to.y - from.y) / length;
+  const nx = -uy * offset;
+  const ny = ux * offset;
+  return {
+    x1: from.x + ux * NODE_RADIUS + nx,
+    y1: from.y + uy * NODE_RADIUS + ny,
+    x2: to.x - ux * (NODE_RADIUS + 2) + nx,
+    y2: to.y - uy * (NODE_RADIUS + 2) + ny,
+  };
+};
+
+const GraphCanvas = ({
+  graph,
+  nodeClassName,
+  nodeLabel,
+  weighted = false,
+  directed = false,
+  endpoints,
+  highlightedPath = [],
+  viewKey = 0,
+  onGraphChange,
+  onEndpointsChange,
+  onDirectedChange,
+}: GraphCanvasProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  // Several canvases can share a page, so each needs its own marker ids
+  const markerId = `arrow-${useId().replace(/[^a-zA-Z0-9_-]/g, '')}`;
+  const [isEditing, setIsEditing] = useState(false);
+  const [tool, setTool] = useState<EditorTool>('move');
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [pendingEdge, setPendingEdge] = useState<string | null>(null);
+  const [costEdit, setCostEdit] = useState<{ from: string; to: string; value: string } | null>(null);
+  const [pickMode, setPickMode] = useState<PickMode>('start');
+
+  const edit = isEditing ? onGraphChange : undefined;
+  const editable = edit !== undefined;
+  const { width, height } = graphBounds(graph);
+  const panZoom = usePanZoom(svgRef, { x: 0, y: 0, width, height }, viewKey);
+
+  const toCanvasPoint = (e: React.PointerEvent | React.MouseEvent) => {
+    const svg = svgRef.current!;
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(svg.getScreenCTM()!.inverse());
+    return {
+      x: Math.max(NODE_RADIUS, Math.min(width - NODE_RADIUS, point.x)),
+      y: Math.max(NODE_RADIUS, Math.min(height - NODE_RADIUS, point.y)),
+    };
+  };
+
+  const handleCanvasPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.target === svgRef.current && !(editable && tool === 'add')) panZoom.startPan(e);
+  };
+
+  const applyLayout = (kind: LayoutKind) => {
+    if (!edit) return;
+    edit(layoutGraph(graph, kind, endpoints?.start));
+    panZoom.fitView();
+  };
+
+  const handleCanvasClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!edit || tool !== 'add' || e.target !== svgRef.current) return;
+    const { x, y } = toCanvasPoint(e);
+    edit(addNode(graph, x, y));
+  };
+
+  const handleNodePointerDown = (e: React.PointerEvent, nodeId: string) => {
+    if (!edit) {
+      if (endpoints && onEndpointsChange) {
+        onEndpointsChange(pickMode === 'start' ? { ...endpoints, start: nodeId } : toggleGoal(endpoints, nodeId));
+      }
+      return;
+    }
+    e.stopPropagation();
+
+    if (tool === 'move') {
+      (e.target as Element).setPointerCapture(e.pointerId);
+      setDragging(nodeId);
+    } else if (tool === 'delete') {
+      edit(removeNode(graph, nodeId));
+    } else if (tool === 'connect') {
+      if (pendingEdge === null) {
+        setPendingEdge(nodeId);
+      } else {
+        if (pendingEdge !== nodeId) edit(toggleEdge(graph, pendingEdge, nodeId, directed));
+        setPendingEdge(null);
+      }
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    panZoom.movePan(e);
+    if (!edit || dragging === null) return;
+    const { x, y } = toCanvasPoint(e);
+    edit(moveNode(graph, dragging, x, y));
+  };
+
+  const handleEdgeClick = (from: string, to: string, cost: number) => {
+    if (!edit) return;
+    if (tool === 'delete') {
+      edit(disconnectNodes(graph, from, to, directed));
+    } else if (weighted) {
+      setCostEdit({ from, to, value: String(cost) });
+    }
+  };
+
+  const commitCost = () => {
+    if (!costEdit || !edit) return;
+    const cost = Number(costEdit.value);
+    if (Number.isFinite(cost) && cost >= 0) {
+      edit(setEdgeCost(graph, costEdit.from, costEdit.to, cost, directed));
+    }
+    setCostEdit(null);
+  };
+
+  const isHighlighted = (a: string, b: string) =>
+    highlightedPath.some(
+      (id, i) => i > 0 && ((highlightedPath[i - 1] === a && id === b) || (!directed && highlightedPath[i - 1] === b && id === a)),
+    );
+
+  const endpointStroke = (nodeId: string) => {
+    if (endpoints?.start === nodeId) return 'stroke-node-start stroke-2';
+    if (endpoints?.goals.includes(nodeId)) return 'stroke-node-goal stroke-2';
+    return 'stroke-border';
+  };
+
+  const toggleEditing = () => {
+    setIsEditing(!isEditing);
+    setPendingEdge(null);
+    setCostEdit(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      {(onGraphChange || onEndpointsChange) && (
+        <div className="space-y-2">
+          <div className="flex gap-2 flex-wrap">
+            {onGraphChange && (
+              <Button onClick={toggleEditing} variant={isEditing ? 'default' : 'outline'} size="sm">
+                {isEditing ? <Check className="w-4 h-4 mr-2" /> : <Pencil className="w-4 h-4 mr-2" />}
+                {isEditing ? 'Done' : 'Edit Graph'}
+              </Button>
+            )}
+            {isEditing && tools.map(({ tool: t, label, icon: Icon }) => (
+              <Button
+                key={t}
+                onClick={() => { setTool(t); setPendingEdge(null); }}
+                variant={tool === t ? 'secondary' : 'ghost'}
+                size="sm"
+              >
+                <Icon className="w-4 h-4 mr-2" />
+                {label}
+              </Button>
+            ))}
+            {isEditing && onDirectedChange && (
+              <Button
+                onClick={() => onDirectedChange(!directed)}
+                variant={directed ? 'secondary' : 'ghost'}
+                size="sm"
+                title={directed ? 'Make every edge two-way' : 'Make edges one-way'}
+              >
+                <ArrowRight className="w-4 h-4 mr-2" />
+                Directed
+              </Button>
+            )}
+            {!isEditing && endpoints && onEndpointsChange && (
+              <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                Click sets:
+                <Button onClick={() => setPickMode('start')} variant={pickMode === 'start' ? 'secondary' : 'ghost'} size="sm">
+                  Start
+                </Button>
+                <Button onClick={() => setPickMode('goal')} variant={pickMode === 'goal' ? 'secondary' : 'ghost'} size="sm">
+                  Goal
+                </Button>
+              </div>
+            )}
+          </div>
+          {isEditing && (
+            <div className="flex items-center gap-1 flex-wrap text-sm text-muted-foreground">
+              Auto layout:
+              {LAYOUTS.map(({ kind, label }) => (
+                <Button key={kind} onClick={() => applyLayout(kind)} variant="ghost" size="sm">
+                  {label}
+                </Button>
+              ))}
+            </div>
+          )}
+          {isEditing && (
+            <p className="text-xs text-muted-foreground">
+              {directed && tool === 'connect'
+                ? 'Click two nodes to add an edge from the first to the second, or to remove it if it exists.'
+                : toolHints[tool]}
+              {weighted && tool !== 'delete' && ' Click an edge cost to change it.'}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="relative">
+        <div className="absolute top-2 right-2 flex gap-1">
+          <Button onClick={panZoom.zoomIn} variant="outline" size="sm" title="Zoom in">
+            <ZoomIn className="w-4 h-4" />
+          </Button>
+          <Button onClick={panZoom.zoomOut} variant="outline" size="sm" title="Zoom out">
+            <ZoomOut className="w-4 h-4" />
+          </Button>
+          <Button onClick={panZoom.fitView} variant="outline" size="sm" title="Fit graph">
+            <Maximize className="w-4 h-4" />
+          </Button>
+        </div>
+        <svg
+          ref={svgRef}
+          width="100%"
+          height={CANVAS_HEIGHT}
+          viewBox={panZoom.viewBox}
+          className={`border rounded touch-none ${editable && tool === 'add' ? 'cursor-crosshair' : panZoom.isPanning ? 'cursor-grabbing' : 'cursor-grab'}`}
+          onClick={handleCanvasClick}
+          onPointerDown={handleCanvasPointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => {
+            setDragging(null);
+            panZoom.endPan();
+          }}
+        >
+          {directed && (
+            <defs>
+              {[
+                { id: markerId, fill: 'hsl(var(--border))' },
+                { id: `${markerId}-path`, fill: 'hsl(var(--node-goal))' },
+              ].map(({ id, fill }) => (
+                <marker
+                  key={id}
+                  id={id}
+                  viewBox="0 0 10 10"
+                  refX="10"
+                  refY="5"
+                  markerWidth={ARROW_SIZE}
+                  markerHeight={ARROW_SIZE}
+                  markerUnits="userSpaceOnUse"
+                  orient="auto"
+                >
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill={fill} />
+                </marker>
+              ))}
+            </defs>
+          )}
+
+          {/* Edges */}
+          {edgeSegments(graph, directed).map(({ from, to, cost }) => {
+            const highlighted = isHighlighted(from.id, to.id);
+            const twoWay = directed && hasEdge(graph, to.id, from.id);
+            const { x1, y1, x2, y2 } = directed
+              ? arcGeometry(from, to, twoWay ? ARC_OFFSET : 0)
+              : { x1: from.x, y1: from.y, x2: to.x, y2: to.y };
+            // The costs of opposite arcs sit nearer their heads so the two labels do not overlap
+            const along = twoWay ? 0.65 : 0.5;
+            const midX = x1 + (x2 - x1) * along;
+            const midY = y1 + (y2 - y1) * along;
+            const isEditingCost = costEdit?.from === from.id && costEdit.to === to.id;
+            return (
+              <g
+                key={`${from.id}-${to.id}`}
+                onClick={() => handleEdgeClick(from.id, to.id, cost)}
+                className={editable ? 'cursor-pointer' : ''}
+              >
+                {/* Wide transparent hit area so thin edges are easy to click */}
+                {editable && (
+                  <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="transparent" strokeWidth="12" />
+                )}
+                <line
+                  x1={x1}
+                  y1={y1}
+                  x2={x2}
+                  y2={y2}
+                  stroke={highlighted ? 'hsl(var(--node-goal))' : 'hsl(var(--border))'}
+                  strokeWidth={highlighted ? 4 : 2}
+                  markerEnd={directed ? `url(#${highlighted ? `${markerId}-path` : markerId})` : undefined}
+                  className="transition-all duration-300"
+                />
+                {weighted && !isEditingCost && (
+                  <>
+                    <circle
+                      cx={midX}
+                      cy={midY}
+                      r="12"
+                      fill="hsl(var(--background))"
+                      stroke="hsl(var(--border))"
+                    />
+                    <text
+                      x={midX}
+                      y={midY + 3}
+                      textAnchor="middle"
+                      className="text-xs font-bold fill-foreground"
+                    >
+                      {cost}
+                    </text>
+                  </>
+                )}
+                {isEditingCost && (
+                  <foreignObject x={midX - 20} y={midY - 12} width="40" height="24">
+                    <input
+                      type="number"
+                      min="0"
+                      autoFocus
+                      value={costEdit.value}
+                      onChange={e => setCostEdit({ ...costEdit, value: e.target.value })}
+                      onBlur={commitCost}
+                      onKeyDown={e => {
+                        if (e.key === 'Enter') commitCost();
+                        if (e.key === 'Escape') setCostEdit(null);
+                      }}
+                      className="w-full h-full text-xs text-center rounded border bg-background"
+                    />
+                  </foreignObject>
+                )}
+              </g>
+            );
+          })}
+
+          {/* Nodes */}
+          {graph.map(node => (
+            <g
+              key={node.id}
+              onPointerDown={e => handleNodePointerDown(e, node.id)}
+              className={editable ? (tool === 'move' ? 'cursor-move' : 'cursor-pointer') : onEndpointsChange ? 'cursor-pointer' : ''}
+            >
+              <circle
+                cx={node.x}
+                cy={node.y}
+                r={NODE_RADIUS}
+                className={`${nodeClassName(node.id)} ${endpointStroke(node.id)} ${pendingEdge === node.id ? 'stroke-primary stroke-[3]' : ''} ${dragging ? '' : 'transition-all duration-300'}`}
+              />
+              <text
+                x={node.x}
+                y={node.y + 5}
+                textAnchor="middle"
+                className="text-sm font-bold fill-foreground select-none pointer-events-none"
+              >
+                {node.id}
+              </text>
+              {nodeLabel && (
+                <text
+                  x={node.x}
+                  y={node.y + 35}
+                  textAnchor="middle"
+                  className="text-xs fill-muted-foreground pointer-events-none"
+                >
+                  {nodeLabel(node.id)}
+                </text>
+              )}
+            </g>
+          ))}
+        </svg>
+      </div>
+    </div>
+  );
+};
+
+export default GraphCanvas;
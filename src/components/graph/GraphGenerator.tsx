@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowRight, Dices, Sparkles } from 'lucide-react';
+import {
+  DEFAULT_GENERATOR_OPTIONS,
+  MAX_GENERATED_NODES,
+  generateGraph,
+  type GeneratorOptions,
+  type GraphTopology,
+} from '@/lib/graph/generator';
+import type { GraphDocument } from '@/lib/graph/formats';
+
+interface GraphGeneratorProps {
+  onGenerate: (document: GraphDocument) => void;
+  disabled?: boolean;
+}
+
+const topologies: { value: GraphTopology; label: string }[] = [
+  { value: 'tree', label: 'Tree' },
+  { value: 'cyclic', label: 'Cyclic' },
+  { value: 'grid', label: 'Grid' },
+];
+
+const GraphGenerator = ({ onGenerate, disabled = false }: GraphGeneratorProps) => {
+  const [options, setOptions] = useState<GeneratorOptions>(DEFAULT_GENERATOR_OPTIONS);
+
+  const numberField = (key: keyof Omit<GeneratorOptions, 'topology' | 'directed'>, label: string, min: number, max: number) => (
+    <div className="flex items-center gap-2">
+      <Label htmlFor={`generator-${key}`}>{label}:</Label>
+      <Input
+        id={`generator-${key}`}
+        type="number"
+        min={min}
+        max={max}
+        value={options[key]}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+          setOptions({ ...options, [key]: Math.max(min, Math.min(max, Number(e.target.value) || 0)) })
+        }
+        className="w-20"
+        disabled={disabled}
+      />
+    </div>
+  );
+
+  return (
+    <div className="flex gap-4 items-center flex-wrap">
+      {numberField('seed', 'Seed', 0, 2 ** 31 - 1)}
+      <Button
+        onClick={() => setOptions({ ...options, seed: Math.floor(Math.random() * 100000) })}
+        disabled={disabled}
+        variant="ghost"
+        size="sm"
+        title="Random seed"
+      >
+        <Dices className="w-4 h-4" />
+      </Button>
+      {numberField('nodeCount', 'Nodes', 1, MAX_GENERATED_NODES)}
+      <div className="flex items-center gap-2">
+        <Label>Topology:</Label>
+        <Select
+          value={options.topology}
+          onValueChange={(topology: GraphTopology) => setOptions({ ...options, topology })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {topologies.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center gap-2">
+        <Label htmlFor="generator-density">Density %:</Label>
+        <Input
+          id="generator-density"
+          type="number"
+          min="0"
+          max="100"
+          value={Math.round(options.density * 100)}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            setOptions({ ...options, density: Math.max(0, Math.min(100, Number(e.target.value) || 0)) / 100 })
+          }
+          className="w-20"
+          disabled={disabled || options.topology === 'tree'}
+        />
+      </div>
+      {numberField('components', 'Components', 1, 10)}
+      {numberField('minCost', 'Min cost', 0, 99)}
+      {numberField('maxCost', 'Max cost', 0, 99)}
+      <Button
+        onClick={() => setOptions({ ...options, directed: !options.directed })}
+        disabled={disabled}
+        variant={options.directed ? 'secondary' : 'ghost'}
+        size="sm"
+        title="Generate one-way edges"
+      >
+        <ArrowRight className="w-4 h-4 mr-2" />
+        Directed
+      </Button>
+      <Button onClick={() => onGenerate(generateGraph(options))} disabled={disabled} variant="outline" size="sm">
+        <Sparkles className="w-4 h-4 mr-2" />
+        Generate Graph
+      </Button>
+    </div>
+  );
+};
+
+export default GraphGenerator;
@@ -0,0 +1,145 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { ClipboardPaste, Download, Upload } from 'lucide-react';
+import {
+  GRAPH_FORMATS,
+  GraphFormatError,
+  formatFromFileName,
+  parseGraph,
+  serializeGraph,
+  type GraphDocument,
+  type GraphFormat,
+} from '@/lib/graph/formats';
+import type { Endpoints } from '@/lib/search/graph';
+import type { GraphNode } from '@/lib/graph/model';
+
+interface GraphImportExportProps {
+  graph: GraphNode[];
+  endpoints: Endpoints;
+  directed?: boolean;
+  onImport: (document: GraphDocument) => void;
+  disabled?: boolean;
+}
+
+const GraphImportExport = ({ graph, endpoints, directed = false, onImport, disabled = false }: GraphImportExportProps) => {
+  const [format, setFormat] = useState<GraphFormat>('json');
+  const [pasting, setPasting] = useState(false);
+  const [text, setText] = useState('');
+  const [problems, setProblems] = useState<string[]>([]);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const load = (source: string, sourceFormat: GraphFormat) => {
+    try {
+      onImport(parseGraph(source, sourceFormat));
+      setProblems([]);
+      setPasting(false);
+    } catch (error) {
+      setProblems(error instanceof GraphFormatError ? error.problems : [String(error)]);
+    }
+  };
+
+  const download = () => {
+    const { extension, mimeType } = GRAPH_FORMATS.find(({ id }) => id === format)!;
+    const url = URL.createObjectURL(new Blob([serializeGraph({ graph, endpoints, directed }, format)], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `graph.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const fileFormat = formatFromFileName(file.name) ?? format;
+    setFormat(fileFormat);
+    load(await file.text(), fileFormat);
+  };
+
+  // Start from the current graph so small edits do not need retyping
+  const togglePasting = () => {
+    if (!pasting) setText(serializeGraph({ graph, endpoints, directed }, format));
+    setPasting(!pasting);
+    setProblems([]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2 items-center flex-wrap">
+        <Label>Graph file:</Label>
+        <Select
+          value={format}
+          onValueChange={(value: GraphFormat) => {
+            setFormat(value);
+            if (pasting) setText(serializeGraph({ graph, endpoints, directed }, value));
+          }}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {GRAPH_FORMATS.map(({ id, label }) => (
+              <SelectItem key={id} value={id}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={download} variant="outline" size="sm">
+          <Download className="w-4 h-4 mr-2" />
+          Download
+        </Button>
+        <Button onClick={() => fileInput.current?.click()} disabled={disabled} variant="outline" size="sm">
+          <Upload className="w-4 h-4 mr-2" />
+          Upload
+        </Button>
+        <Button onClick={togglePasting} disabled={disabled} variant={pasting ? 'default' : 'outline'} size="sm">
+          <ClipboardPaste className="w-4 h-4 mr-2" />
+          Paste
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,.dot,.gv,.txt"
+          onChange={handleFile}
+          className="hidden"
+        />
+      </div>
+
+      {pasting && (
+        <div className="space-y-2">
+          <Textarea
+            value={text}
+            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setText(e.target.value)}
+            rows={10}
+            className="font-mono text-xs"
+            spellCheck={false}
+          />
+          <div className="flex gap-2">
+            <Button onClick={() => load(text, format)} disabled={disabled} size="sm">
+              Load Graph
+            </Button>
+            <Button onClick={togglePasting} variant="outline" size="sm">
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {problems.length > 0 && (
+        <div className="p-4 bg-destructive/20 border border-destructive rounded">
+          <p className="font-semibold text-destructive">Could not load the graph:</p>
+          <ul className="list-disc ml-6 text-sm">
+            {problems.map((problem, index) => (
+              <li key={index}>{problem}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GraphImportExport;
@@ -0,0 +1,92 @@
+import type { TreeNode, TreeNodeStatus } from '@/lib/search/engine';
+import { layoutTree } from '@/lib/search/tree';
+
+interface SearchTreeProps {
+  tree: readonly TreeNode[];
+  currentKey?: number;
+  showCost?: boolean;
+}
+
+const statusClasses: Record<TreeNodeStatus, string> = {
+  frontier: 'fill-accent stroke-border [stroke-dasharray:4_2]',
+  expanded: 'fill-node-visited stroke-border',
+  goal: 'fill-node-goal stroke-node-goal',
+  cutoff: 'fill-destructive/30 stroke-destructive',
+  pruned: 'fill-muted stroke-border opacity-50',
+};
+
+const legend: { status: TreeNodeStatus; label: string }[] = [
+  { status: 'expanded', label: 'Expanded' },
+  { status: 'frontier', label: 'Frontier leaf' },
+  { status: 'pruned', label: 'Pruned duplicate' },
+  { status: 'cutoff', label: 'Cutoff at limit' },
+  { status: 'goal', label: 'Goal' },
+];
+
+const SearchTree = ({ tree, currentKey, showCost = false }: SearchTreeProps) => {
+  const { positions, width, height } = layoutTree(tree);
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-auto max-h-96 border rounded">
+        <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`}>
+          {/* Tree edges */}
+          {tree.map(node => {
+            if (node.parent === null) return null;
+            const from = positions.get(node.parent)!;
+            const to = positions.get(node.key)!;
+            return (
+              <line
+                key={`edge-${node.key}`}
+                x1={from.x}
+                y1={from.y}
+                x2={to.x}
+                y2={to.y}
+                stroke="hsl(var(--border))"
+                strokeWidth="1.5"
+                strokeDasharray={node.status === 'pruned' ? '3 3' : undefined}
+              />
+            );
+          })}
+
+          {/* Tree nodes */}
+          {tree.map(node => {
+            const { x, y } = positions.get(node.key)!;
+            return (
+              <g key={node.key}>
+                <circle
+                  cx={x}
+                  cy={y}
+                  r="14"
+                  className={`${node.key === currentKey && node.status !== 'goal' ? 'fill-node-current stroke-border' : statusClasses[node.status]} transition-all duration-300`}
+                />
+                <text x={x} y={y + 4} textAnchor="middle" className="text-xs font-bold fill-foreground">
+                  {node.id}
+                </text>
+                {node.status === 'pruned' && (
+                  <line x1={x - 10} y1={y + 10} x2={x + 10} y2={y - 10} stroke="hsl(var(--destructive))" strokeWidth="1.5" />
+                )}
+                <text x={x} y={y + 26} textAnchor="middle" className="text-[10px] fill-muted-foreground">
+                  {showCost ? `g=${node.cost}` : `d=${node.depth}`}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <div className="flex gap-3 flex-wrap text-xs text-muted-foreground">
+        {legend.map(({ status, label }) => (
+          <span key={status} className="flex items-center gap-1">
+            <svg width="12" height="12">
+              <circle cx="6" cy="6" r="5" className={statusClasses[status]} />
+            </svg>
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SearchTree;
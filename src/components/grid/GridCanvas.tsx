@@ -0,0 +1,113 @@
+import React, { useRef, useState } from 'react';
+import type { GridWorld, Terrain } from '@/lib/grid/world';
+
+interface GridCanvasProps {
+  world: GridWorld;
+  /** Search overlay for a cell, e.g. visited or on the path; empty for none. */
+  overlayClassName: (index: number) => string;
+  /** Called for the pressed cell and for every new cell the pointer is dragged across. */
+  onPaint?: (index: number) => void;
+}
+
+const CELL_SIZE = 24;
+
+const terrainClasses: Record<Terrain, string> = {
+  open: 'fill-background',
+  mud: 'fill-amber-700/50',
+  water: 'fill-sky-500/50',
+  wall: 'fill-foreground',
+};
+
+const GridCanvas = ({ world, overlayClassName, onPaint }: GridCanvasProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [lastPainted, setLastPainted] = useState<number | null>(null);
+
+  const cellAt = (e: React.PointerEvent<SVGSVGElement>) => {
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(svgRef.current!.getScreenCTM()!.inverse());
+    const row = Math.floor(point.y / CELL_SIZE);
+    const column = Math.floor(point.x / CELL_SIZE);
+    if (row < 0 || column < 0 || row >= world.rows || column >= world.columns) return null;
+    return row * world.columns + column;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const index = cellAt(e);
+    if (!onPaint || index === null) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setLastPainted(index);
+    onPaint(index);
+  };
+
+  // Pointer moves fire many times per cell, so each cell is painted once per visit
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!onPaint || lastPainted === null) return;
+    const index = cellAt(e);
+    if (index === null || index === lastPainted) return;
+    setLastPainted(index);
+    onPaint(index);
+  };
+
+  const marker = (index: number, label: string, className: string) => (
+    <text
+      x={(index % world.columns) * CELL_SIZE + CELL_SIZE / 2}
+      y={Math.floor(index / world.columns) * CELL_SIZE + CELL_SIZE / 2 + 4}
+      textAnchor="middle"
+      className={`text-xs font-bold select-none pointer-events-none ${className}`}
+    >
+      {label}
+    </text>
+  );
+
+  return (
+    <div className="overflow-auto">
+      <svg
+        ref={svgRef}
+        width={world.columns * CELL_SIZE}
+        height={world.rows * CELL_SIZE}
+        className={`border rounded touch-none ${onPaint ? 'cursor-crosshair' : ''}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setLastPainted(null)}
+      >
+        {world.cells.map((terrain, index) => {
+          const x = (index % world.columns) * CELL_SIZE;
+          const y = Math.floor(index / world.columns) * CELL_SIZE;
+          const overlay = overlayClassName(index);
+          return (
+            <g key={index}>
+              <rect x={x} y={y} width={CELL_SIZE} height={CELL_SIZE} className={`${terrainClasses[terrain]} stroke-border`} />
+              {overlay && (
+                <rect
+                  x={x + 2}
+                  y={y + 2}
+                  width={CELL_SIZE - 4}
+                  height={CELL_SIZE - 4}
+                  rx="3"
+                  className={`${overlay} opacity-80 transition-all duration-300 pointer-events-none`}
+                />
+              )}
+            </g>
+          );
+        })}
+        <rect
+          x={(world.start % world.columns) * CELL_SIZE + 1}
+          y={Math.floor(world.start / world.columns) * CELL_SIZE + 1}
+          width={CELL_SIZE - 2}
+          height={CELL_SIZE - 2}
+          className="fill-none stroke-node-start stroke-2 pointer-events-none"
+        />
+        <rect
+          x={(world.goal % world.columns) * CELL_SIZE + 1}
+          y={Math.floor(world.goal / world.columns) * CELL_SIZE + 1}
+          width={CELL_SIZE - 2}
+          height={CELL_SIZE - 2}
+          className="fill-none stroke-node-goal stroke-2 pointer-events-none"
+        />
+        {marker(world.start, 'S', 'fill-node-start')}
+        {marker(world.goal, 'G', 'fill-node-goal')}
+      </svg>
+    </div>
+  );
+};
+
+export default GridCanvas;
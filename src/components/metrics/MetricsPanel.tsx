@@ -0,0 +1,201 @@
+import { formatBytes, formatElapsed, type RunMetrics } from '@/lib/search/metrics';
+
+export interface MeasuredRun {
+  label: string;
+  metrics: RunMetrics;
+}
+
+interface MetricsPanelProps {
+  /** One run for most visualizers; the comparison passes one per algorithm. */
+  runs: MeasuredRun[];
+}
+
+const seriesClasses = [
+  { stroke: 'stroke-node-current', fill: 'fill-node-current', swatch: 'bg-node-current' },
+  { stroke: 'stroke-node-goal', fill: 'fill-node-goal', swatch: 'bg-node-goal' },
+  { stroke: 'stroke-node-start', fill: 'fill-node-start', swatch: 'bg-node-start' },
+  { stroke: 'stroke-primary', fill: 'fill-primary', swatch: 'bg-primary' },
+];
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 140;
+const MARGIN = { left: 40, right: 8, top: 8, bottom: 20 };
+
+// A 200,000-step puzzle run would be as many points, so each drawn point stands for the largest of its span
+const MAX_POINTS = 240;
+
+const downsample = (values: readonly number[]) => {
+  const span = Math.max(1, Math.ceil(values.length / MAX_POINTS));
+  const points: { index: number; value: number }[] = [];
+  for (let start = 0; start < values.length; start += span) {
+    let value = values[start];
+    for (let index = start + 1; index < Math.min(values.length, start + span); index++) value = Math.max(value, values[index]);
+    points.push({ index: start, value });
+  }
+  return points;
+};
+
+const plotWidth = CHART_WIDTH - MARGIN.left - MARGIN.right;
+const plotHeight = CHART_HEIGHT - MARGIN.top - MARGIN.bottom;
+
+const Axes = ({ maxX, maxY, xLabel }: { maxX: number; maxY: number; xLabel: string }) => (
+  <>
+    <line x1={MARGIN.left} y1={MARGIN.top} x2={MARGIN.left} y2={MARGIN.top + plotHeight} className="stroke-border" />
+    <line
+      x1={MARGIN.left}
+      y1={MARGIN.top + plotHeight}
+      x2={MARGIN.left + plotWidth}
+      y2={MARGIN.top + plotHeight}
+      className="stroke-border"
+    />
+    <text x={MARGIN.left - 4} y={MARGIN.top + 8} textAnchor="end" className="text-[10px] fill-muted-foreground">
+      {maxY.toLocaleString()}
+    </text>
+    <text x={MARGIN.left - 4} y={MARGIN.top + plotHeight} textAnchor="end" className="text-[10px] fill-muted-foreground">
+      0
+    </text>
+    <text x={MARGIN.left + plotWidth} y={CHART_HEIGHT - 4} textAnchor="end" className="text-[10px] fill-muted-foreground">
+      {xLabel} {maxX.toLocaleString()}
+    </text>
+  </>
+);
+
+const FrontierChart = ({ runs }: MetricsPanelProps) => {
+  const maxStep = Math.max(1, ...runs.map(run => run.metrics.frontierSizes.length - 1));
+  const maxSize = Math.max(1, ...runs.map(run => run.metrics.maxFrontier));
+  const x = (step: number) => MARGIN.left + (step / maxStep) * plotWidth;
+  const y = (size: number) => MARGIN.top + plotHeight - (size / maxSize) * plotHeight;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+      <Axes maxX={maxStep} maxY={maxSize} xLabel="step" />
+      {runs.map((run, index) => (
+        <polyline
+          key={run.label}
+          points={downsample(run.metrics.frontierSizes)
+            .map(point => `${x(point.index)},${y(point.value)}`)
+            .join(' ')}
+          className={`fill-none ${seriesClasses[index % seriesClasses.length].stroke}`}
+          strokeWidth="1.5"
+        />
+      ))}
+    </svg>
+  );
+};
+
+// Depth-first runs can go thousands of levels deep, so past this many bars neighbouring depths share one
+const MAX_BARS = 60;
+
+const DepthChart = ({ runs }: MetricsPanelProps) => {
+  const depths = Math.max(1, ...runs.map(run => run.metrics.expansionsByDepth.length));
+  const span = Math.ceil(depths / MAX_BARS);
+  const bars = runs.map(run => {
+    const sums = new Array<number>(Math.ceil(depths / span)).fill(0);
+    run.metrics.expansionsByDepth.forEach((count, depth) => (sums[Math.floor(depth / span)] += count));
+    return sums;
+  });
+  const maxCount = bars.reduce((max, sums) => sums.reduce((inner, sum) => Math.max(inner, sum), max), 1);
+  const slot = plotWidth / Math.ceil(depths / span);
+  const barWidth = (slot * 0.8) / runs.length;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+      <Axes maxX={depths - 1} maxY={maxCount} xLabel="depth" />
+      {runs.map((run, index) =>
+        bars[index].map((count, bar) => {
+          const height = (count / maxCount) * plotHeight;
+          const first = bar * span;
+          return (
+            <rect
+              key={`${run.label}-${bar}`}
+              x={MARGIN.left + bar * slot + slot * 0.1 + index * barWidth}
+              y={MARGIN.top + plotHeight - height}
+              width={barWidth}
+              height={height}
+              className={seriesClasses[index % seriesClasses.length].fill}
+            >
+              <title>
+                {`${run.label}, depth ${span > 1 ? `${first}–${first + span - 1}` : first}: ${count.toLocaleString()} expanded`}
+              </title>
+            </rect>
+          );
+        }),
+      )}
+    </svg>
+  );
+};
+
+const rows: { label: string; value: (metrics: RunMetrics) => string }[] = [
+  { label: 'Nodes expanded', value: metrics => metrics.expanded.toLocaleString() },
+  { label: 'Nodes generated', value: metrics => metrics.generated.toLocaleString() },
+  { label: 'Duplicates detected', value: metrics => metrics.duplicates.toLocaleString() },
+  { label: 'Max frontier size', value: metrics => metrics.maxFrontier.toLocaleString() },
+  { label: 'Max entries stored', value: metrics => metrics.maxStored.toLocaleString() },
+  { label: 'Memory estimate', value: metrics => `≈ ${formatBytes(metrics.memoryBytes)}` },
+  {
+    label: 'Effective branching factor',
+    value: metrics => (metrics.branchingFactor === null ? '–' : metrics.branchingFactor.toFixed(2)),
+  },
+  { label: 'Search time', value: metrics => (metrics.elapsed === null ? '–' : formatElapsed(metrics.elapsed)) },
+];
+
+/**
+ * Counts and charts for the run up to the step on screen, so they grow as it
+ * plays. Search time only counts computing the steps, not the playback delay.
+ */
+const MetricsPanel = ({ runs }: MetricsPanelProps) => (
+  <div className="space-y-6">
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        {runs.length > 1 && (
+          <thead>
+            <tr className="text-left border-b border-border">
+              <th className="py-2 pr-4 font-semibold">Metric</th>
+              {runs.map(run => (
+                <th key={run.label} className="py-2 pr-4 font-semibold">
+                  {run.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+        )}
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.label} className="border-b border-border">
+              <td className="py-2 pr-4 text-muted-foreground">{row.label}</td>
+              {runs.map(run => (
+                <td key={run.label} className="py-2 pr-4 font-mono">
+                  {row.value(run.metrics)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div>
+        <p className="font-semibold mb-2 text-sm">Frontier size per step</p>
+        <FrontierChart runs={runs} />
+      </div>
+      <div>
+        <p className="font-semibold mb-2 text-sm">Expansions per depth</p>
+        <DepthChart runs={runs} />
+      </div>
+    </div>
+
+    {runs.length > 1 && (
+      <div className="flex gap-3 flex-wrap text-xs text-muted-foreground">
+        {runs.map((run, index) => (
+          <span key={run.label} className="flex items-center gap-1">
+            <span className={`w-3 h-3 rounded-sm ${seriesClasses[index % seriesClasses.length].swatch}`} />
+            {run.label}
+          </span>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default MetricsPanel;
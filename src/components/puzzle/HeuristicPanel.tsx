@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { BarChart3, ShieldCheck, Square } from 'lucide-react';
+import { boardSize } from '@/lib/puzzle/board';
+import {
+  HEURISTICS,
+  MAX_CHECKED_SIZE,
+  checkHeuristic,
+  createHeuristic,
+  type Heuristic,
+  type HeuristicCheck,
+  type HeuristicId,
+} from '@/lib/puzzle/heuristics';
+import { MAX_PUZZLE_STEPS, STRATEGY_LABELS, type PuzzleSearchOptions } from '@/lib/puzzle/search';
+import type { PuzzleRunSummary } from '@/lib/search/jobs';
+import { formatElapsed } from '@/lib/search/metrics';
+import { useSearchWorker } from '@/hooks/use-search-worker';
+
+interface HeuristicPanelProps {
+  board: number[];
+  goal: number[];
+  /** The search to compare heuristics under, with each heuristic in turn. */
+  options: Omit<PuzzleSearchOptions, 'heuristic'>;
+  /** Null when the expression does not compile, which leaves the custom heuristic out. */
+  expression: string | null;
+  selected: HeuristicId;
+}
+
+type Row = { id: HeuristicId | 'none'; label: string; heuristic: Heuristic };
+
+// The two checks are slow enough to run only on request, so each result remembers what it was run for
+type Stamped<T> = { stamp: string; results: Partial<Record<Row['id'], T>> };
+
+const verdict = (value: boolean | null | undefined) => {
+  if (value === true) return <span className="text-node-goal font-semibold">Yes</span>;
+  if (value === false) return <span className="text-destructive font-semibold">No</span>;
+  return <span className="text-muted-foreground">Unknown</span>;
+};
+
+/**
+ * Compares the heuristics on the current board: whether each is admissible
+ * and consistent, and how many expansions each needs under the selected
+ * strategy, against a search with no heuristic at all.
+ */
+const HeuristicPanel = ({ board, goal, options, expression, selected }: HeuristicPanelProps) => {
+  const [checks, setChecks] = useState<Stamped<HeuristicCheck> | null>(null);
+  const [comparisons, setComparisons] = useState<Stamped<PuzzleRunSummary> | null>(null);
+  const comparing = useSearchWorker<PuzzleRunSummary>();
+
+  const rows: Row[] = [
+    { id: 'none', label: 'None (h = 0)', heuristic: () => 0 },
+    ...HEURISTICS.filter(info => info.id !== 'custom' || expression !== null).map(info => ({
+      id: info.id,
+      label: info.id === 'custom' ? `Custom: ${expression}` : info.label,
+      heuristic: createHeuristic(info.id, goal, expression ?? undefined),
+    })),
+  ];
+  const checkStamp = `${goal.join(',')}|${expression}`;
+  const compareStamp = `${board.join(',')}|${checkStamp}|${options.strategy}|${options.moveCost}|${options.weight}|${options.depthLimit}`;
+  const checked = checks?.stamp === checkStamp ? checks.results : {};
+  const compared = comparisons?.stamp === compareStamp ? comparisons.results : {};
+  const canCheck = boardSize(goal) <= MAX_CHECKED_SIZE;
+
+  const runChecks = () =>
+    setChecks({
+      stamp: checkStamp,
+      results: Object.fromEntries(rows.map(row => [row.id, checkHeuristic(row.heuristic, goal)])),
+    });
+
+  // A run with no heuristic can take seconds on the larger boards, so the comparison runs in the worker
+  const runComparisons = () => {
+    const stamp = compareStamp;
+    const { strategy, moveCost, depthLimit, weight } = options;
+    comparing.start(
+      {
+        kind: 'heuristics',
+        board,
+        goal,
+        // Spelled out since the caller's options may still carry a heuristic, and functions cannot be posted
+        options: { strategy, moveCost, depthLimit, weight },
+        heuristics: rows.map(row => ({ heuristic: row.id, expression: expression ?? undefined })),
+      },
+      summaries =>
+        setComparisons({ stamp, results: Object.fromEntries(rows.map((row, index) => [row.id, summaries[index]])) }),
+    );
+  };
+
+  const baseline = compared.none;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2 flex-wrap">
+        <Button onClick={runChecks} disabled={!canCheck} variant="outline" size="sm">
+          <ShieldCheck className="w-4 h-4 mr-2" />
+          Check on Every Board
+        </Button>
+        {comparing.progress ? (
+          <Button onClick={comparing.cancel} variant="outline" size="sm">
+            <Square className="w-4 h-4 mr-2" />
+            Cancel Comparison
+          </Button>
+        ) : (
+          <Button onClick={runComparisons} variant="outline" size="sm">
+            <BarChart3 className="w-4 h-4 mr-2" />
+            Compare with {STRATEGY_LABELS[options.strategy]}
+          </Button>
+        )}
+        {comparing.progress && (
+          <span className="text-sm text-muted-foreground font-mono self-center">
+            {comparing.progress.expanded.toLocaleString()} expanded · {formatElapsed(comparing.progress.elapsed)}
+          </span>
+        )}
+        {!comparing.progress && comparing.error && (
+          <span className="text-sm text-destructive self-center">{comparing.error}</span>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {canCheck
+          ? 'Checking visits all 181,440 boards that can reach the goal and compares each estimate with the true distance.'
+          : `Only ${MAX_CHECKED_SIZE}×${MAX_CHECKED_SIZE} boards can be checked board by board; larger ones show what is proven for the built-in heuristics.`}{' '}
+        Comparing stops any run at {MAX_PUZZLE_STEPS.toLocaleString()} expansions.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left border-b border-border">
+              <th className="py-2 pr-4 font-semibold">Heuristic</th>
+              <th className="py-2 pr-4 font-semibold">Admissible</th>
+              <th className="py-2 pr-4 font-semibold">Consistent</th>
+              <th className="py-2 pr-4 font-semibold">Expanded</th>
+              <th className="py-2 pr-4 font-semibold">Saved vs. h = 0</th>
+              <th className="py-2 font-semibold">Solution</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => {
+              const info = HEURISTICS.find(candidate => candidate.id === row.id);
+              const check = checked[row.id];
+              const result = compared[row.id];
+              // A run that hit the cap saved an unknown amount; a baseline that hit it only bounds the saving from below
+              const saved = result?.finished && baseline ? baseline.expanded - result.expanded : null;
+              return (
+                <tr key={row.id} className={`border-b border-border ${row.id === selected ? 'bg-accent/30' : ''}`}>
+                  <td className="py-2 pr-4">
+                    <p className="font-medium">{row.label}</p>
+                    {info && info.id !== 'custom' && <p className="text-xs text-muted-foreground">{info.description}</p>}
+                    {check?.overestimate && (
+                      <p className="text-xs text-destructive">
+                        Estimates {check.overestimate.estimate} for a board {check.overestimate.actual} moves away
+                      </p>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4">{verdict(check ? check.admissible : row.id === 'none' ? true : info?.admissible)}</td>
+                  <td className="py-2 pr-4">{verdict(check ? check.consistent : row.id === 'none' ? true : info?.consistent)}</td>
+                  <td className="py-2 pr-4 font-mono">
+                    {result ? `${result.finished ? '' : '> '}${result.expanded.toLocaleString()}` : '–'}
+                  </td>
+                  <td className="py-2 pr-4 font-mono">
+                    {saved !== null && baseline && row.id !== 'none'
+                      ? `${baseline.finished ? '' : '> '}${saved.toLocaleString()} (${Math.round((saved / baseline.expanded) * 100)}%)`
+                      : '–'}
+                  </td>
+                  <td className="py-2 font-mono">
+                    {result?.moves != null
+                      ? `${result.moves} moves${options.moveCost === 'tile' ? `, cost ${result.cost}` : ''}`
+                      : result
+                        ? 'not found'
+                        : '–'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default HeuristicPanel;
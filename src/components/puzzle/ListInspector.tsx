@@ -0,0 +1,182 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight } from 'lucide-react';
+import type { PuzzleSize } from '@/lib/puzzle/board';
+import { fCost, listsAt, type PuzzleNode, type PuzzleRun, type PuzzleSnapshot, type PuzzleStrategy } from '@/lib/puzzle/search';
+
+interface ListInspectorProps {
+  snapshot: PuzzleSnapshot;
+  /** The node shown on the main board instead of the current one, if any. */
+  previewed: PuzzleNode | null;
+  onPreview: (node: PuzzleNode | null) => void;
+}
+
+type ListName = 'open' | 'closed';
+type SortKey = 'list' | 'g' | 'h' | 'f' | 'depth';
+
+const PAGE_SIZE = 24;
+
+const SORT_LABELS: Record<SortKey, string> = {
+  list: 'List order',
+  g: 'g (cost so far)',
+  h: 'h (estimate)',
+  f: 'f = g + h',
+  depth: 'Depth',
+};
+
+// Open the list sorted the way the strategy picks from it
+const defaultSort: Partial<Record<PuzzleStrategy, SortKey>> = { ucs: 'g', greedy: 'h', astar: 'f', weighted: 'f' };
+
+const sortValues: Record<Exclude<SortKey, 'list'>, (run: PuzzleRun, node: PuzzleNode) => number> = {
+  g: (_, node) => node.cost,
+  h: (_, node) => node.heuristic,
+  f: fCost,
+  depth: (_, node) => node.depth,
+};
+
+const miniColumns: Record<PuzzleSize, string> = { 3: 'grid-cols-3', 4: 'grid-cols-4', 5: 'grid-cols-5' };
+
+/**
+ * Pages through the boards in the open and closed lists at the snapshot's
+ * step, sortable by g, h, f and depth. The board the strategy takes next is
+ * marked, and clicking any board previews it on the main board.
+ */
+const ListInspector = ({ snapshot, previewed, onPreview }: ListInspectorProps) => {
+  const [list, setList] = useState<ListName>('open');
+  const [sortKey, setSortKey] = useState<SortKey>(defaultSort[snapshot.strategy] ?? 'list');
+  const [descending, setDescending] = useState(false);
+  const [page, setPage] = useState(0);
+
+  const { run } = snapshot;
+  const lists = useMemo(() => listsAt(snapshot), [snapshot]);
+  const sorted = useMemo(() => {
+    const nodes = lists[list];
+    if (sortKey === 'list') return descending ? [...nodes].reverse() : nodes;
+    if (!run) return nodes;
+    // The sort is stable, so ties keep their list order either way
+    const direction = descending ? -1 : 1;
+    const value = sortValues[sortKey];
+    return [...nodes].sort((a, b) => direction * (value(run, a) - value(run, b)));
+  }, [lists, list, sortKey, descending, run]);
+
+  if (!run) return null;
+
+  const pageCount = Math.max(1, Math.ceil(sorted.length / PAGE_SIZE));
+  const shownPage = Math.min(page, pageCount - 1);
+  const shown = sorted.slice(shownPage * PAGE_SIZE, (shownPage + 1) * PAGE_SIZE);
+  // The run may already be further along, in which case it knows what this step took next
+  const isNext = (node: PuzzleNode) => node.closedAt === snapshot.step + 1;
+  const fromGoal = (node: PuzzleNode) => {
+    let root = node;
+    while (root.parent) root = root.parent;
+    return run.strategy === 'bidirectional' && root.board !== run.root.board;
+  };
+
+  const showList = (name: ListName) => {
+    setList(name);
+    setPage(0);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2 items-center flex-wrap">
+        <Button onClick={() => showList('open')} variant={list === 'open' ? 'default' : 'outline'} size="sm">
+          Open ({lists.open.length.toLocaleString()})
+        </Button>
+        <Button onClick={() => showList('closed')} variant={list === 'closed' ? 'default' : 'outline'} size="sm">
+          Closed ({lists.closed.length.toLocaleString()})
+        </Button>
+        <Select
+          value={sortKey}
+          onValueChange={(value: string) => {
+            setSortKey(value as SortKey);
+            setPage(0);
+          }}
+        >
+          <SelectTrigger className="w-40 ml-auto" title="Sort by">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(SORT_LABELS) as SortKey[]).map(key => (
+              <SelectItem key={key} value={key}>
+                {key === 'f' && run.strategy === 'weighted' ? `f = g + ${run.weight}h` : SORT_LABELS[key]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={() => {
+            setDescending(!descending);
+            setPage(0);
+          }}
+          variant="outline"
+          size="sm"
+          title={descending ? 'Largest first' : 'Smallest first'}
+        >
+          {descending ? <ArrowDown className="w-4 h-4" /> : <ArrowUp className="w-4 h-4" />}
+        </Button>
+      </div>
+
+      {shown.length === 0 ? (
+        <p className="text-sm text-muted-foreground">The {list} list is empty at this step.</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto">
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 xl:grid-cols-6 gap-2">
+            {shown.map(node => {
+              const isCurrent = node === snapshot.current;
+              const isPreviewed = node === previewed;
+              return (
+                <button
+                  key={node.key}
+                  type="button"
+                  onClick={() => onPreview(isPreviewed ? null : node)}
+                  title={isPreviewed ? 'Stop previewing' : 'Preview on the board'}
+                  className={`p-2 rounded-lg border-2 text-left transition-colors hover:bg-accent/40 ${
+                    isPreviewed ? 'border-primary' : isCurrent ? 'border-node-current' : isNext(node) ? 'border-node-goal' : 'border-border'
+                  }`}
+                >
+                  <div className={`grid ${miniColumns[run.size as PuzzleSize]} gap-0.5 w-16 mx-auto`}>
+                    {node.board.map((value, index) => (
+                      <div
+                        key={index}
+                        className={`aspect-square flex items-center justify-center text-[10px] rounded-sm ${value === 0 ? 'bg-muted' : 'bg-accent'}`}
+                      >
+                        {value !== 0 && value}
+                      </div>
+                    ))}
+                  </div>
+                  <p className="mt-2 font-mono text-xs text-muted-foreground">
+                    g {node.cost} · h {node.heuristic} · f {fCost(run, node)}
+                  </p>
+                  <p className="font-mono text-xs text-muted-foreground">depth {node.depth}</p>
+                  {(isCurrent || isNext(node) || fromGoal(node)) && (
+                    <p className="text-xs font-semibold">
+                      {isCurrent && <span className="text-node-current">Expanded now </span>}
+                      {isNext(node) && <span className="text-node-goal">Taken next </span>}
+                      {fromGoal(node) && <span className="text-muted-foreground">From goal</span>}
+                    </p>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <Button onClick={() => setPage(shownPage - 1)} disabled={shownPage === 0} variant="outline" size="sm" title="Previous page">
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <span>
+          Page {shownPage + 1} of {pageCount.toLocaleString()}
+        </span>
+        <Button onClick={() => setPage(shownPage + 1)} disabled={shownPage >= pageCount - 1} variant="outline" size="sm" title="Next page">
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ListInspector;
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Check, RotateCcw, X } from 'lucide-react';
+import {
+  BoardFormatError,
+  boardSize,
+  formatBoard,
+  goalBoard,
+  parseBoard,
+  unsolvableReason,
+  type PuzzleSize,
+} from '@/lib/puzzle/board';
+
+interface PuzzleBoardEditorProps {
+  board: number[];
+  goal: number[];
+  onApply: (board: number[], goal: number[]) => void;
+  onCancel: () => void;
+}
+
+type Side = 'board' | 'goal';
+
+const gridColumns: Record<PuzzleSize, string> = {
+  3: 'grid-cols-3',
+  4: 'grid-cols-4',
+  5: 'grid-cols-5',
+};
+
+const readDraft = (text: string, size: number): { tiles: number[] | null; problems: string[] } => {
+  try {
+    return { tiles: parseBoard(text, size), problems: [] };
+  } catch (error) {
+    return { tiles: null, problems: error instanceof BoardFormatError ? error.problems : [String(error)] };
+  }
+};
+
+const PuzzleBoardEditor = ({ board, goal, onApply, onCancel }: PuzzleBoardEditorProps) => {
+  const size = boardSize(board) as PuzzleSize;
+  const [drafts, setDrafts] = useState<Record<Side, string>>({ board: formatBoard(board), goal: formatBoard(goal) });
+  const [dragging, setDragging] = useState<{ side: Side; index: number } | null>(null);
+
+  const read = { board: readDraft(drafts.board, size), goal: readDraft(drafts.goal, size) };
+  const start = read.board.tiles;
+  const target = read.goal.tiles;
+  const reason = start && target ? unsolvableReason(start, target) : null;
+
+  // Dropping a tile on another swaps the two, which also covers moving the blank
+  const handleDrop = (side: Side, index: number) => {
+    const tiles = read[side].tiles;
+    if (!tiles || !dragging || dragging.side !== side || dragging.index === index) return;
+    const next = [...tiles];
+    [next[dragging.index], next[index]] = [next[index], next[dragging.index]];
+    setDrafts({ ...drafts, [side]: formatBoard(next) });
+    setDragging(null);
+  };
+
+  const sides: { side: Side; label: string }[] = [
+    { side: 'board', label: 'Start board' },
+    { side: 'goal', label: 'Goal board' },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {sides.map(({ side, label }) => {
+          const { tiles, problems } = read[side];
+          return (
+            <div key={side} className="space-y-2">
+              <Label htmlFor={`puzzle-${side}`}>{label}</Label>
+              {tiles && (
+                <div className={`grid ${gridColumns[size]} gap-1 w-40`}>
+                  {tiles.map((tile, index) => (
+                    <div
+                      key={index}
+                      draggable
+                      onDragStart={() => setDragging({ side, index })}
+                      onDragOver={(e: React.DragEvent) => e.preventDefault()}
+                      onDrop={() => handleDrop(side, index)}
+                      onDragEnd={() => setDragging(null)}
+                      className={`aspect-square flex items-center justify-center text-sm font-bold rounded border cursor-grab ${
+                        tile === 0 ? 'bg-muted' : 'bg-accent'
+                      } ${dragging?.side === side && dragging.index === index ? 'opacity-50' : ''}`}
+                    >
+                      {tile !== 0 && tile}
+                    </div>
+                  ))}
+                </div>
+              )}
+              <Textarea
+                id={`puzzle-${side}`}
+                value={drafts[side]}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setDrafts({ ...drafts, [side]: e.target.value })}
+                rows={size}
+                className="font-mono text-sm w-40"
+              />
+              {problems.length > 0 && (
+                <ul className="list-disc ml-5 text-sm text-destructive">
+                  {problems.map((problem, index) => (
+                    <li key={index}>{problem}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Drag a tile onto another to swap them, or type one row per line with 0 or _ for the blank.
+      </p>
+
+      {reason && (
+        <div className="p-4 bg-destructive/20 border border-destructive rounded">
+          <p className="font-semibold text-destructive">This goal cannot be reached from this start.</p>
+          <p className="text-sm">{reason}</p>
+        </div>
+      )}
+
+      <div className="flex gap-2 flex-wrap">
+        <Button onClick={() => start && target && onApply(start, target)} disabled={!start || !target || reason !== null} size="sm">
+          <Check className="w-4 h-4 mr-2" />
+          Use Boards
+        </Button>
+        <Button onClick={() => setDrafts({ ...drafts, goal: formatBoard(goalBoard(size)) })} variant="outline" size="sm">
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Standard Goal
+        </Button>
+        <Button onClick={onCancel} variant="ghost" size="sm">
+          <X className="w-4 h-4 mr-2" />
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PuzzleBoardEditor;
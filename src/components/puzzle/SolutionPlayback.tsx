@@ -0,0 +1,138 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Pause, Play, SkipBack, SkipForward, StepBack, StepForward } from 'lucide-react';
+import { blankMoves, boardSize, slideBlank, type Move, type PuzzleSize } from '@/lib/puzzle/board';
+
+interface SolutionPlaybackProps {
+  /** The board the solution starts from. */
+  board: number[];
+  moves: Move[];
+}
+
+interface Frame {
+  board: number[];
+  /** The tile the last move slid, so it can be picked out. */
+  moved: number | null;
+}
+
+const MOVE_DELAY = 400;
+
+// One frame per position, starting with the untouched board
+const framesOf = (board: number[], moves: readonly Move[]): Frame[] => {
+  const size = boardSize(board);
+  const frames: Frame[] = [{ board, moved: null }];
+  for (const move of moves) {
+    const current = frames[frames.length - 1].board;
+    const blank = current.indexOf(0);
+    const target = blankMoves(size, blank).find(option => option.move === move);
+    if (!target) break;
+    frames.push({ board: slideBlank(current, blank, target.to), moved: current[target.to] });
+  }
+  return frames;
+};
+
+const tileText: Record<PuzzleSize, string> = { 3: 'text-xl', 4: 'text-lg', 5: 'text-base' };
+
+/**
+ * Replays a found solution on its own board and timeline, separate from the
+ * search that found it. Tiles are keyed by number and placed by position, so
+ * each move slides the tile instead of redrawing the board. The search
+ * controls keep the keyboard shortcuts; this timeline only has buttons.
+ */
+const SolutionPlayback = ({ board, moves }: SolutionPlaybackProps) => {
+  const size = boardSize(board);
+
+  const frames = useMemo(() => framesOf(board, moves), [board, moves]);
+  const last = frames.length - 1;
+  const [played, setPlayed] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const { board: shown, moved } = frames[Math.min(played, last)];
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (played >= last) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setPlayed(played + 1), MOVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [isPlaying, played, last]);
+
+  // Any manual move pauses, like the search controls do
+  const goTo = (index: number) => {
+    setIsPlaying(false);
+    setPlayed(Math.max(0, Math.min(last, index)));
+  };
+
+  // Playing from the goal starts over
+  const togglePlaying = () => {
+    if (!isPlaying && played >= last) setPlayed(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="relative w-64 aspect-square mx-auto">
+        {shown.map((tile, index) =>
+          tile === 0 ? null : (
+            <div
+              key={tile}
+              className="absolute p-1 transition-all duration-300 ease-out"
+              style={{
+                width: `${100 / size}%`,
+                height: `${100 / size}%`,
+                left: `${((index % size) * 100) / size}%`,
+                top: `${(Math.floor(index / size) * 100) / size}%`,
+              }}
+            >
+              <div
+                className={`w-full h-full flex items-center justify-center ${tileText[size as PuzzleSize]} font-bold rounded-lg border-2 border-border ${
+                  tile === moved ? 'bg-node-current' : 'bg-accent'
+                }`}
+              >
+                {tile}
+              </div>
+            </div>
+          ),
+        )}
+      </div>
+
+      <p className="text-center text-sm text-muted-foreground">
+        Move <span className="font-mono bg-accent px-2 py-1 rounded">{played} / {last}</span>
+        {played > 0 && <span className="ml-2">blank moved {moves[played - 1]}</span>}
+        {played === last && <span className="ml-2 text-node-goal font-semibold">Goal reached</span>}
+      </p>
+
+      <div className="flex gap-1 justify-center">
+        <Button onClick={() => goTo(0)} disabled={played === 0} variant="outline" size="sm" title="First move">
+          <SkipBack className="w-4 h-4" />
+        </Button>
+        <Button onClick={() => goTo(played - 1)} disabled={played === 0} variant="outline" size="sm" title="Previous move">
+          <StepBack className="w-4 h-4" />
+        </Button>
+        <Button onClick={togglePlaying} disabled={last === 0} size="sm">
+          {isPlaying ? <Pause className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
+          {isPlaying ? 'Pause' : played >= last ? 'Replay' : 'Play'}
+        </Button>
+        <Button onClick={() => goTo(played + 1)} disabled={played >= last} variant="outline" size="sm" title="Next move">
+          <StepForward className="w-4 h-4" />
+        </Button>
+        <Button onClick={() => goTo(last)} disabled={played >= last} variant="outline" size="sm" title="Last move">
+          <SkipForward className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <Slider
+        value={[played]}
+        min={0}
+        max={Math.max(1, last)}
+        step={1}
+        onValueChange={([index]: number[]) => goTo(index)}
+        disabled={last === 0}
+      />
+    </div>
+  );
+};
+
+export default SolutionPlayback;
@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+export interface ViewBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const ZOOM_STEP = 1.25;
+const MIN_WIDTH = 60;
+const MAX_ZOOM_OUT = 4;
+
+/**
+ * Pan and zoom for an SVG by moving its viewBox. The view fits `fit` until the
+ * user zooms or pans, and snaps back to it whenever `resetKey` changes, e.g.
+ * when a different graph is loaded.
+ */
+export const usePanZoom = (svgRef: React.RefObject<SVGSVGElement | null>, fit: ViewBox, resetKey: number) => {
+  const [view, setView] = useState<{ key: number; box: ViewBox } | null>(null);
+  const [panStart, setPanStart] = useState<{ clientX: number; clientY: number; box: ViewBox } | null>(null);
+
+  const box = view && view.key === resetKey ? view.box : fit;
+
+  // Zooms by `factor` while keeping the given point (in viewBox units) under the cursor
+  const zoomAt = (factor: number, point = { x: box.x + box.width / 2, y: box.y + box.height / 2 }) => {
+    const width = Math.max(MIN_WIDTH, Math.min(fit.width * MAX_ZOOM_OUT, box.width / factor));
+    const scale = width / box.width;
+    setView({
+      key: resetKey,
+      box: {
+        x: point.x - (point.x - box.x) * scale,
+        y: point.y - (point.y - box.y) * scale,
+        width,
+        height: box.height * scale,
+      },
+    });
+  };
+
+  // The listener stays attached for the life of the svg, so it zooms through whichever zoomAt is current
+  const latestZoomAt = useRef(zoomAt);
+  useEffect(() => {
+    latestZoomAt.current = zoomAt;
+  });
+
+  // React registers wheel listeners as passive, so the page would scroll along with the zoom
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(svg.getScreenCTM()!.inverse());
+      latestZoomAt.current(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, point);
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [svgRef]);
+
+  const startPan = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setPanStart({ clientX: e.clientX, clientY: e.clientY, box });
+  };
+
+  const movePan = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!panStart) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    // The viewBox is letterboxed into the element, so the larger ratio is the real scale
+    const scale = Math.max(panStart.box.width / rect.width, panStart.box.height / rect.height);
+    setView({
+      key: resetKey,
+      box: {
+        ...panStart.box,
+        x: panStart.box.x - (e.clientX - panStart.clientX) * scale,
+        y: panStart.box.y - (e.clientY - panStart.clientY) * scale,
+      },
+    });
+  };
+
+  return {
+    viewBox: `${box.x} ${box.y} ${box.width} ${box.height}`,
+    isPanning: panStart !== null,
+    startPan,
+    movePan,
+    endPan: () => setPanStart(null),
+    zoomIn: () => zoomAt(ZOOM_STEP),
+    zoomOut: () => zoomAt(1 / ZOOM_STEP),
+    fitView: () => setView(null),
+  };
+};
@@ -0,0 +1,36 @@
+import { useEffect } from 'react';
+import type { SearchHistory } from './use-search-history';
+
+export const PLAYBACK_SHORTCUTS = [
+  { key: 'Space', action: 'Play / pause' },
+  { key: '→', action: 'Step forward' },
+  { key: '←', action: 'Step back' },
+  { key: 'R', action: 'Reset' },
+] as const;
+
+// Typing into the depth limit or a cost label must not drive the playback
+const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Binds the playback shortcuts to the window while the controls are mounted.
+ */
+export const usePlaybackShortcuts = (history: SearchHistory, onReset: () => void) => {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || isTextEntry(event.target)) return;
+
+      if (event.key === ' ') history.togglePlaying();
+      else if (event.key === 'ArrowRight' && !history.isPlaying) history.stepForward();
+      else if (event.key === 'ArrowLeft') history.stepBack();
+      else if (event.key === 'r' || event.key === 'R') onReset();
+      else return;
+
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history, onReset]);
+};
@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { runMetrics, type StepCounts } from '@/lib/search/metrics';
+
+interface RecordedRun<S> {
+  snapshots: readonly S[];
+  cursor: number;
+  elapsed: number;
+}
+
+/** Metrics for a search history up to its cursor, recomputed only when the timeline or the cursor moves. */
+export const useRunMetrics = <S,>(
+  { snapshots, cursor, elapsed }: RecordedRun<S>,
+  countsOf: (snapshot: S) => StepCounts,
+  entryBytes: number,
+) =>
+  useMemo(
+    () => runMetrics(snapshots.slice(0, cursor + 1), countsOf, { elapsed, entryBytes }),
+    [snapshots, cursor, elapsed, countsOf, entryBytes],
+  );
@@ -0,0 +1,148 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Keeps "jump to end" from hanging the page on searches that never finish
+export const MAX_HISTORY = 5000;
+
+// Multipliers on each visualizer's base delay; Infinity runs straight to the end
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4, 10, Infinity] as const;
+export type PlaybackSpeed = (typeof PLAYBACK_SPEEDS)[number];
+
+interface SearchHistoryOptions<S> {
+  advance: (snapshot: S) => S;
+  isDone: (snapshot: S) => boolean;
+  delay: number;
+  /** Replays this many steps up front, e.g. to restore a shared link. */
+  initialStep?: number;
+  /** Raises the history cap for runs whose snapshots are small enough to keep many more of. */
+  maxLength?: number;
+}
+
+interface Timeline<S> {
+  snapshots: S[];
+  /** Milliseconds spent computing each snapshot and every one before it; the first took none. */
+  elapsed: number[];
+}
+
+// Appends snapshots until the run finishes or the timeline reaches `length`
+const record = <S,>(
+  { snapshots, elapsed }: Timeline<S>,
+  advance: (snapshot: S) => S,
+  isDone: (snapshot: S) => boolean,
+  length: number,
+): Timeline<S> => {
+  const recorded = { snapshots: [...snapshots], elapsed: [...elapsed] };
+  let last = recorded.snapshots[recorded.snapshots.length - 1];
+  while (!isDone(last) && recorded.snapshots.length < length) {
+    const started = performance.now();
+    last = advance(last);
+    recorded.snapshots.push(last);
+    recorded.elapsed.push(recorded.elapsed[recorded.elapsed.length - 1] + performance.now() - started);
+  }
+  return recorded;
+};
+
+/**
+ * Records every snapshot of a run so it can be replayed in both directions.
+ * Stepping forward past the newest snapshot computes a new one; anywhere else
+ * it just moves the cursor through the recorded timeline.
+ */
+export const useSearchHistory = <S,>(
+  initial: () => S,
+  { advance, isDone, delay, initialStep = 0, maxLength = MAX_HISTORY }: SearchHistoryOptions<S>,
+) => {
+  const [timeline, setTimeline] = useState<Timeline<S>>(() =>
+    record({ snapshots: [initial()], elapsed: [0] }, advance, isDone, Math.min(initialStep + 1, maxLength)),
+  );
+  const { snapshots: history } = timeline;
+  const [cursor, setCursor] = useState(history.length - 1);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState<PlaybackSpeed>(1);
+
+  const snapshot = history[cursor];
+  const atLatest = cursor === history.length - 1;
+  const canStepForward = !atLatest || (!isDone(snapshot) && history.length < maxLength);
+
+  const stepForward = () => {
+    if (!canStepForward) {
+      setIsPlaying(false);
+      return;
+    }
+    if (atLatest) {
+      const recorded = record(timeline, advance, isDone, history.length + 1);
+      setTimeline(recorded);
+      if (isDone(recorded.snapshots[recorded.snapshots.length - 1])) setIsPlaying(false);
+    }
+    setCursor(cursor + 1);
+  };
+
+  const stepBack = () => {
+    setIsPlaying(false);
+    setCursor(Math.max(0, cursor - 1));
+  };
+
+  const seek = (index: number) => {
+    setIsPlaying(false);
+    setCursor(Math.max(0, Math.min(history.length - 1, index)));
+  };
+
+  // Runs the search to completion (or the history cap) and shows the final snapshot
+  const jumpToEnd = () => {
+    const recorded = record(timeline, advance, isDone, maxLength);
+    setTimeline(recorded);
+    setCursor(recorded.snapshots.length - 1);
+    setIsPlaying(false);
+  };
+
+  // Swaps in a timeline recorded elsewhere, e.g. by a worker, and shows where it ends
+  const load = (snapshots: S[], elapsed: number[]) => {
+    setTimeline({ snapshots, elapsed });
+    setCursor(snapshots.length - 1);
+    setIsPlaying(false);
+  };
+
+  const reset = (first: S = history[0]) => {
+    setTimeline({ snapshots: [first], elapsed: [0] });
+    setCursor(0);
+    setIsPlaying(false);
+  };
+
+  // The timer only restarts when playback moves on, so it calls whichever step functions are current when it fires
+  const playback = useRef({ stepForward, jumpToEnd });
+  useEffect(() => {
+    playback.current = { stepForward, jumpToEnd };
+  });
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (speed === Infinity) {
+      playback.current.jumpToEnd();
+      return;
+    }
+    const timer = setTimeout(() => playback.current.stepForward(), delay / speed);
+    return () => clearTimeout(timer);
+  }, [isPlaying, cursor, timeline, delay, speed]);
+
+  return {
+    snapshot,
+    /** Everything recorded so far, which can run past the cursor. */
+    snapshots: history,
+    /** Time spent computing the run up to the cursor. */
+    elapsed: timeline.elapsed[cursor],
+    cursor,
+    length: history.length,
+    isPlaying,
+    canStepForward,
+    speed,
+    setSpeed,
+    togglePlaying: () => setIsPlaying(!isPlaying && canStepForward),
+    stepForward,
+    stepBack,
+    seek,
+    jumpToStart: () => seek(0),
+    jumpToEnd,
+    load,
+    reset,
+  };
+};
+
+export type SearchHistory = Omit<ReturnType<typeof useSearchHistory>, 'snapshot' | 'snapshots' | 'load' | 'reset'>;
@@ -0,0 +1,76 @@
+import { useEffect, useRef, useState } from 'react';
+import type { SearchJob, SearchProgress, WorkerMessage } from '@/lib/search/jobs';
+
+export interface WorkerRunResult {
+  steps: number;
+  elapsed: number;
+}
+
+/**
+ * Runs whole searches in a Web Worker so the page stays responsive, with
+ * progress reported while the worker runs. Only one run is live at a time;
+ * starting another or cancelling terminates the worker outright, since a
+ * search loop cannot be interrupted from outside.
+ */
+export const useSearchWorker = <S,>() => {
+  const worker = useRef<Worker | null>(null);
+  const [progress, setProgress] = useState<SearchProgress | null>(null);
+  const [result, setResult] = useState<WorkerRunResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const stop = () => {
+    worker.current?.terminate();
+    worker.current = null;
+  };
+
+  useEffect(() => stop, []);
+
+  /** Runs `job` and hands its full trace to `onDone`. */
+  const start = (job: SearchJob, onDone: (snapshots: S[], elapsed: number[]) => void) => {
+    stop();
+    const current = new Worker(new URL('../lib/search/search.worker.ts', import.meta.url), { type: 'module' });
+    worker.current = current;
+    setProgress({ expanded: 0, frontier: 0, elapsed: 0 });
+    setResult(null);
+    setError(null);
+
+    current.onmessage = (event: MessageEvent<WorkerMessage<S>>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setProgress(message.progress);
+        return;
+      }
+      stop();
+      setProgress(null);
+      if (message.type === 'error') {
+        setError(message.message);
+        return;
+      }
+      const { snapshots, elapsed } = message.trace;
+      setResult({ steps: snapshots.length - 1, elapsed: elapsed[elapsed.length - 1] });
+      onDone(snapshots, elapsed);
+    };
+    current.onerror = (event: ErrorEvent) => {
+      stop();
+      setProgress(null);
+      setError(event.message || 'The worker stopped unexpectedly.');
+    };
+    current.postMessage(job);
+  };
+
+  const cancel = () => {
+    stop();
+    setProgress(null);
+  };
+
+  // Anything that restarts the search also clears what the last run reported
+  const clear = () => {
+    cancel();
+    setResult(null);
+    setError(null);
+  };
+
+  return { isRunning: progress !== null, progress, result, error, start, cancel, clear };
+};
+
+export type SearchWorker = Omit<ReturnType<typeof useSearchWorker>, 'start'>;
@@ -0,0 +1,39 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { UrlStateError } from '@/lib/share/url-state';
+
+type DecodedView<V> = { view: V; problems: null } | { view: null; problems: string[] };
+
+/**
+ * Restores a view from the query string and keeps the query string in step
+ * with it afterwards. Links that cannot be decoded come back as a list of
+ * problems instead of throwing.
+ */
+export const useUrlView = <V,>(
+  decode: (params: URLSearchParams) => V,
+  encode: (view: V) => URLSearchParams,
+) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Decoded again whenever the query changes, so following a link or the back button off a bad one recovers
+  const query = searchParams.toString();
+  const decoded = useMemo<DecodedView<V>>(() => {
+    try {
+      return { view: decode(new URLSearchParams(query)), problems: null };
+    } catch (error) {
+      if (error instanceof UrlStateError) return { view: null, problems: error.problems };
+      throw error;
+    }
+  }, [decode, query]);
+
+  // Replacing rather than pushing keeps every playback step out of the back button
+  const onViewChange = useCallback(
+    (view: V) => {
+      const next = encode(view);
+      if (next.toString() !== query) setSearchParams(next, { replace: true });
+    },
+    [encode, query, setSearchParams],
+  );
+
+  return { ...decoded, onViewChange };
+};
@@ -0,0 +1,67 @@
+import { findNode, hasEdge, type GraphNode } from './model';
+
+// A, B, ..., Z, AA, AB, ... like spreadsheet columns
+export const idForIndex = (index: number): string =>
+  (index >= 26 ? idForIndex(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+export const nextNodeId = (graph: GraphNode[]) => {
+  let index = 0;
+  while (findNode(graph, idForIndex(index))) index++;
+  return idForIndex(index);
+};
+
+export const addNode = (graph: GraphNode[], x: number, y: number): GraphNode[] => [
+  ...graph,
+  { id: nextNodeId(graph), x: Math.round(x), y: Math.round(y), neighbors: [] },
+];
+
+export const removeNode = (graph: GraphNode[], id: string): GraphNode[] =>
+  graph
+    .filter(node => node.id !== id)
+    .map(node => ({ ...node, neighbors: node.neighbors.filter(neighbor => neighbor.id !== id) }));
+
+export const moveNode = (graph: GraphNode[], id: string, x: number, y: number): GraphNode[] =>
+  graph.map(node => (node.id === id ? { ...node, x: Math.round(x), y: Math.round(y) } : node));
+
+// In a directed graph only the a → b half of each change applies
+export const connectNodes = (graph: GraphNode[], a: string, b: string, cost = 1, directed = false): GraphNode[] => {
+  if (a === b || hasEdge(graph, a, b)) return graph;
+  return graph.map(node => {
+    if (node.id === a) return { ...node, neighbors: [...node.neighbors, { id: b, cost }] };
+    if (node.id === b && !directed) return { ...node, neighbors: [...node.neighbors, { id: a, cost }] };
+    return node;
+  });
+};
+
+export const disconnectNodes = (graph: GraphNode[], a: string, b: string, directed = false): GraphNode[] =>
+  graph.map(node => {
+    if (node.id === a) return { ...node, neighbors: node.neighbors.filter(neighbor => neighbor.id !== b) };
+    if (node.id === b && !directed) return { ...node, neighbors: node.neighbors.filter(neighbor => neighbor.id !== a) };
+    return node;
+  });
+
+export const toggleEdge = (graph: GraphNode[], a: string, b: string, directed = false): GraphNode[] =>
+  hasEdge(graph, a, b) ? disconnectNodes(graph, a, b, directed) : connectNodes(graph, a, b, 1, directed);
+
+export const setEdgeCost = (graph: GraphNode[], a: string, b: string, cost: number, directed = false): GraphNode[] =>
+  graph.map(node => {
+    const other = node.id === a ? b : node.id === b && !directed ? a : null;
+    if (!other) return node;
+    return {
+      ...node,
+      neighbors: node.neighbors.map(neighbor => (neighbor.id === other ? { ...neighbor, cost } : neighbor)),
+    };
+  });
+
+// Turning a directed graph undirected adds the missing reverse edges; opposite arcs with different costs keep the cheaper one
+export const symmetrize = (graph: GraphNode[]): GraphNode[] => {
+  const arcCost = (from: string, to: string) =>
+    findNode(graph, from)?.neighbors.find(neighbor => neighbor.id === to)?.cost ?? Infinity;
+  return graph.map(node => {
+    const ids = new Set([
+      ...node.neighbors.map(neighbor => neighbor.id),
+      ...graph.filter(other => hasEdge(graph, other.id, node.id)).map(other => other.id),
+    ]);
+    return { ...node, neighbors: [...ids].map(id => ({ id, cost: Math.min(arcCost(node.id, id), arcCost(id, node.id)) })) };
+  });
+};
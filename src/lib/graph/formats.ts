@@ -0,0 +1,383 @@
+import { edgeSegments, findNode, type GraphNode } from './model';
+import { layoutGraph } from './layout';
+import type { Endpoints } from '@/lib/search/graph';
+
+/**
+ * Reading and writing graphs as JSON, Graphviz DOT and a plain adjacency list.
+ *
+ * Every format round-trips node coordinates, edge costs and the start/goal
+ * selection. Parsers collect every problem they find and throw them together
+ * as a GraphFormatError, so a TA fixing a file sees all the mistakes at once.
+ */
+
+export type GraphFormat = 'json' | 'dot' | 'adjacency';
+
+export interface GraphDocument {
+  graph: GraphNode[];
+  endpoints: Endpoints;
+  /** Directed graphs keep one-way edges and may price the two directions differently. */
+  directed?: boolean;
+}
+
+export const GRAPH_FORMATS: { id: GraphFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { id: 'dot', label: 'Graphviz DOT', extension: 'dot', mimeType: 'text/vnd.graphviz' },
+  { id: 'adjacency', label: 'Adjacency list', extension: 'txt', mimeType: 'text/plain' },
+];
+
+export class GraphFormatError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(problems.join('\n'));
+    this.name = 'GraphFormatError';
+    this.problems = problems;
+  }
+}
+
+/** Structural problems that would make the searches misbehave, as readable messages. */
+export const validateGraph = ({ graph, endpoints, directed = false }: GraphDocument): string[] => {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+
+  graph.forEach(node => {
+    if (seen.has(node.id)) problems.push(`Node ${node.id} is defined more than once.`);
+    seen.add(node.id);
+
+    node.neighbors.forEach((neighbor, index) => {
+      if (node.neighbors.findIndex(edge => edge.id === neighbor.id) !== index) {
+        problems.push(`Node ${node.id} lists neighbor ${neighbor.id} more than once.`);
+        return;
+      }
+      const target = findNode(graph, neighbor.id);
+      if (!target) {
+        problems.push(`Node ${node.id} lists neighbor ${neighbor.id}, which does not exist.`);
+        return;
+      }
+      if (!Number.isFinite(neighbor.cost) || neighbor.cost < 0) {
+        problems.push(`Edge ${node.id}–${neighbor.id} has invalid cost ${neighbor.cost}; costs must be non-negative numbers.`);
+      }
+      if (directed) return;
+      const reverse = target.neighbors.find(edge => edge.id === node.id);
+      if (!reverse) {
+        problems.push(`Edge ${node.id}–${neighbor.id} is missing its reverse edge ${neighbor.id}–${node.id}.`);
+      } else if (reverse.cost !== neighbor.cost && node.id < neighbor.id) {
+        problems.push(`Edge ${node.id}–${neighbor.id} costs ${neighbor.cost} but ${neighbor.id}–${node.id} costs ${reverse.cost}.`);
+      }
+    });
+  });
+
+  if (graph.length === 0) problems.push('The graph has no nodes.');
+  if (graph.length > 0 && !findNode(graph, endpoints.start)) {
+    problems.push(`Start node ${endpoints.start || '(none)'} does not exist.`);
+  }
+  endpoints.goals
+    .filter(goal => !findNode(graph, goal))
+    .forEach(goal => problems.push(`Goal node ${goal} does not exist.`));
+
+  return problems;
+};
+
+// Files without a full set of coordinates get a force-directed layout instead
+const placeMissing = (nodes: { id: string; x?: number; y?: number; neighbors: GraphNode['neighbors'] }[]): GraphNode[] => {
+  const graph = nodes.map(({ id, x, y, neighbors }) => ({ id, x: x ?? 0, y: y ?? 0, neighbors }));
+  return nodes.every(node => node.x !== undefined && node.y !== undefined) ? graph : layoutGraph(graph, 'force');
+};
+
+// Parsing stops at syntax errors; only a well-formed document gets structural validation
+const checked = (document: GraphDocument): GraphDocument => {
+  const problems = validateGraph(document);
+  if (problems.length > 0) throw new GraphFormatError(problems);
+  return document;
+};
+
+const defaultStart = (graph: GraphNode[], start?: string) => start ?? graph[0]?.id ?? '';
+
+/* ---------- JSON ---------- */
+
+const serializeJson = ({ graph, endpoints, directed = false }: GraphDocument) =>
+  JSON.stringify(
+    {
+      directed,
+      start: endpoints.start,
+      goals: endpoints.goals,
+      nodes: graph.map(({ id, x, y, neighbors }) => ({ id, x, y, neighbors })),
+    },
+    null,
+    2,
+  );
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseJson = (text: string): GraphDocument => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new GraphFormatError([`Invalid JSON: ${(error as Error).message}`]);
+  }
+
+  // A bare array of nodes is accepted too, which is what the old component literals looked like
+  const root = Array.isArray(data) ? { nodes: data } : data;
+  if (!isRecord(root) || !Array.isArray(root.nodes)) {
+    throw new GraphFormatError(['Expected an object with a "nodes" array.']);
+  }
+
+  const problems: string[] = [];
+  const nodes = root.nodes.flatMap((raw: unknown, index: number) => {
+    if (!isRecord(raw) || typeof raw.id !== 'string' || raw.id === '') {
+      problems.push(`Node #${index + 1} needs a non-empty string "id".`);
+      return [];
+    }
+    const neighbors = Array.isArray(raw.neighbors) ? raw.neighbors : [];
+    return [{
+      id: raw.id,
+      x: typeof raw.x === 'number' ? raw.x : undefined,
+      y: typeof raw.y === 'number' ? raw.y : undefined,
+      neighbors: neighbors.flatMap((edge: unknown) => {
+        // Neighbors may be plain ids (cost 1) or { id, cost } objects
+        if (typeof edge === 'string') return [{ id: edge, cost: 1 }];
+        if (isRecord(edge) && typeof edge.id === 'string') {
+          return [{ id: edge.id, cost: typeof edge.cost === 'number' ? edge.cost : 1 }];
+        }
+        problems.push(`Node ${raw.id} has a malformed neighbor entry.`);
+        return [];
+      }),
+    }];
+  });
+
+  if (root.directed !== undefined && typeof root.directed !== 'boolean') problems.push('"directed" must be true or false.');
+  if (root.start !== undefined && typeof root.start !== 'string') problems.push('"start" must be a node id.');
+  if (root.goals !== undefined && !(Array.isArray(root.goals) && root.goals.every(goal => typeof goal === 'string'))) {
+    problems.push('"goals" must be an array of node ids.');
+  }
+  if (problems.length > 0) throw new GraphFormatError(problems);
+
+  const graph = placeMissing(nodes);
+  return checked({
+    graph,
+    endpoints: {
+      start: defaultStart(graph, root.start as string | undefined),
+      goals: (root.goals as string[] | undefined) ?? [],
+    },
+    directed: root.directed === true,
+  });
+};
+
+/* ---------- Graphviz DOT ---------- */
+
+const quoteDot = (id: string) => (/^[A-Za-z_][A-Za-z0-9_]*$/.test(id) ? id : `"${id.replace(/"/g, '\\"')}"`);
+
+const serializeDot = ({ graph, endpoints, directed = false }: GraphDocument) => {
+  const nodeLines = graph.map(node => {
+    const attributes = [`pos="${node.x},${node.y}"`];
+    if (node.id === endpoints.start) attributes.push('start=true');
+    if (endpoints.goals.includes(node.id)) attributes.push('goal=true');
+    return `  ${quoteDot(node.id)} [${attributes.join(', ')}];`;
+  });
+  const operator = directed ? '->' : '--';
+  const edgeLines = edgeSegments(graph, directed).map(
+    ({ from, to, cost }) => `  ${quoteDot(from.id)} ${operator} ${quoteDot(to.id)} [label=${cost}, weight=${cost}];`,
+  );
+  return [`${directed ? 'digraph' : 'graph'} G {`, ...nodeLines, ...edgeLines, '}'].join('\n');
+};
+
+// Comments are matched like tokens, so "#" or "//" inside a quoted id or color stays part of the string
+const DOT_TOKEN = /\s*(\/\*[\s\S]*?\*\/|\/\/.*|#.*|--|->|"(?:[^"\\]|\\.)*"|[A-Za-z0-9_.]+|[{}[\];,=])/y;
+
+const tokenizeDot = (source: string): string[] => {
+  const tokens: string[] = [];
+  DOT_TOKEN.lastIndex = 0;
+  while (DOT_TOKEN.lastIndex < source.length) {
+    if (/^\s*$/.test(source.slice(DOT_TOKEN.lastIndex))) break;
+    const match = DOT_TOKEN.exec(source);
+    if (!match) {
+      throw new GraphFormatError([`Unexpected character "${source[DOT_TOKEN.lastIndex]}" in DOT input.`]);
+    }
+    if (!/^(\/\*|\/\/|#)/.test(match[1])) tokens.push(match[1]);
+  }
+  return tokens;
+};
+
+const unquote = (token: string) => (token.startsWith('"') ? token.slice(1, -1).replace(/\\"/g, '"') : token);
+
+const parseDot = (text: string): GraphDocument => {
+  const tokens = tokenizeDot(text);
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new GraphFormatError([`Expected "${token}" in DOT input.`]);
+  };
+
+  if (peek() === 'strict') next();
+  const kind = next();
+  if (kind !== 'graph' && kind !== 'digraph') throw new GraphFormatError(['DOT input must start with "graph" or "digraph".']);
+  if (peek() !== '{') next();
+  expect('{');
+
+  const directed = kind === 'digraph';
+  const nodes = new Map<string, { id: string; x?: number; y?: number; neighbors: GraphNode['neighbors'] }>();
+  const problems: string[] = [];
+  let start: string | undefined;
+  const goals: string[] = [];
+
+  const readAttributes = () => {
+    const attributes: Record<string, string> = {};
+    while (peek() === '[') {
+      next();
+      while (peek() !== ']') {
+        if (peek() === undefined) throw new GraphFormatError(['Unterminated attribute list in DOT input.']);
+        const key = unquote(next());
+        expect('=');
+        attributes[key] = unquote(next());
+        if (peek() === ',' || peek() === ';') next();
+      }
+      next();
+    }
+    return attributes;
+  };
+
+  const declare = (id: string) => {
+    if (!nodes.has(id)) nodes.set(id, { id, neighbors: [] });
+    return nodes.get(id)!;
+  };
+
+  while (peek() !== '}') {
+    if (peek() === undefined) throw new GraphFormatError(['Missing closing "}" in DOT input.']);
+    if (peek() === ';') {
+      next();
+      continue;
+    }
+
+    const first = unquote(next());
+    if (['graph', 'node', 'edge'].includes(first) && peek() === '[') {
+      readAttributes();
+      continue;
+    }
+    if (peek() === '=') {
+      next();
+      next();
+      continue;
+    }
+
+    const chain = [first];
+    const operators: string[] = [];
+    while (peek() === '--' || peek() === '->') {
+      operators.push(next());
+      chain.push(unquote(next()));
+    }
+    const attributes = readAttributes();
+
+    if (chain.length === 1) {
+      const node = declare(first);
+      if (attributes.pos !== undefined) {
+        const [x, y] = attributes.pos.replace('!', '').split(',').map(Number);
+        if (Number.isFinite(x) && Number.isFinite(y)) Object.assign(node, { x, y });
+        else problems.push(`Node ${first} has an unreadable pos "${attributes.pos}".`);
+      }
+      if (attributes.start === 'true') start = first;
+      if (attributes.goal === 'true') goals.push(first);
+      continue;
+    }
+
+    const expected = directed ? '->' : '--';
+    if (operators.some(operator => operator !== expected)) {
+      problems.push(`Edge ${chain.join(' ')} must use "${expected}" inside a ${kind}.`);
+    }
+    const cost = Number(attributes.weight ?? attributes.label ?? 1);
+    chain.slice(1).forEach((to, step) => {
+      const from = chain[step];
+      declare(from).neighbors.push({ id: to, cost });
+      // A node may only ever appear as an edge target, so it is declared either way
+      const target = declare(to);
+      if (!directed) target.neighbors.push({ id: from, cost });
+    });
+  }
+
+  if (problems.length > 0) throw new GraphFormatError(problems);
+  const graph = placeMissing([...nodes.values()]);
+  return checked({ graph, endpoints: { start: defaultStart(graph, start), goals }, directed });
+};
+
+/* ---------- Adjacency list ---------- */
+
+const serializeAdjacency = ({ graph, endpoints, directed = false }: GraphDocument) =>
+  [
+    '# node (x,y): neighbor:cost ...',
+    ...(directed ? ['@directed'] : []),
+    `@start ${endpoints.start}`,
+    `@goals ${endpoints.goals.join(' ')}`,
+    ...graph.map(
+      node => `${node.id} (${node.x},${node.y}): ${node.neighbors.map(({ id, cost }) => `${id}:${cost}`).join(' ')}`,
+    ),
+  ].join('\n');
+
+const ADJACENCY_LINE = /^([^\s(:]+)\s*(?:\(\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*\))?\s*:(.*)$/;
+
+const parseAdjacency = (text: string): GraphDocument => {
+  const problems: string[] = [];
+  const nodes: { id: string; x?: number; y?: number; neighbors: GraphNode['neighbors'] }[] = [];
+  let start: string | undefined;
+  let goals: string[] = [];
+  let directed = false;
+
+  text.split('\n').forEach((rawLine, lineIndex) => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (line === '') return;
+
+    if (line.startsWith('@')) {
+      const [directive, ...ids] = line.split(/\s+/);
+      if (directive === '@start') start = ids[0];
+      else if (directive === '@goals') goals = ids;
+      else if (directive === '@directed') directed = true;
+      else problems.push(`Line ${lineIndex + 1}: unknown directive ${directive}.`);
+      return;
+    }
+
+    const match = ADJACENCY_LINE.exec(line);
+    if (!match) {
+      problems.push(`Line ${lineIndex + 1}: expected "NODE (x,y): NEIGHBOR:cost ...".`);
+      return;
+    }
+    const [, id, x, y, rest] = match;
+    const neighbors = rest.trim().split(/[\s,]+/).filter(Boolean).map(entry => {
+      const [neighbor, cost] = entry.split(':');
+      return { id: neighbor, cost: cost === undefined ? 1 : Number(cost) };
+    });
+    nodes.push({ id, x: x === undefined ? undefined : Number(x), y: y === undefined ? undefined : Number(y), neighbors });
+  });
+
+  if (problems.length > 0) throw new GraphFormatError(problems);
+  const graph = placeMissing(nodes);
+  return checked({ graph, endpoints: { start: defaultStart(graph, start), goals }, directed });
+};
+
+export const serializeGraph = (document: GraphDocument, format: GraphFormat): string => {
+  switch (format) {
+    case 'json':
+      return serializeJson(document);
+    case 'dot':
+      return serializeDot(document);
+    case 'adjacency':
+      return serializeAdjacency(document);
+  }
+};
+
+/** Throws a GraphFormatError listing every problem if the text cannot be loaded. */
+export const parseGraph = (text: string, format: GraphFormat): GraphDocument => {
+  switch (format) {
+    case 'json':
+      return parseJson(text);
+    case 'dot':
+      return parseDot(text);
+    case 'adjacency':
+      return parseAdjacency(text);
+  }
+};
+
+// Lets an uploaded file pick its own parser
+export const formatFromFileName = (name: string): GraphFormat | undefined =>
+  GRAPH_FORMATS.find(({ extension }) => name.toLowerCase().endsWith(`.${extension}`))?.id ??
+  (name.toLowerCase().endsWith('.gv') ? 'dot' : undefined);
@@ -0,0 +1,211 @@
+import { NODE_RADIUS, type GraphNode } from './model';
+import { idForIndex } from './editing';
+import type { GraphDocument } from './formats';
+
+/**
+ * Seeded random graphs for practice. The same options and seed always give
+ * the same graph, so a class can work on one generated graph together.
+ */
+
+export type GraphTopology = 'tree' | 'cyclic' | 'grid';
+
+export interface GeneratorOptions {
+  seed: number;
+  nodeCount: number;
+  /** For cyclic graphs the chance of each extra edge; for grids the chance of keeping each non-tree edge. */
+  density: number;
+  topology: GraphTopology;
+  components: number;
+  minCost: number;
+  maxCost: number;
+  /**
+   * Tree edges point away from the first node so everything stays reachable
+   * from the start, grid paths stay two-way with a separate cost each way, and
+   * extra edges are one-way in a random direction.
+   */
+  directed: boolean;
+}
+
+export const DEFAULT_GENERATOR_OPTIONS: GeneratorOptions = {
+  seed: 1,
+  nodeCount: 10,
+  density: 0.3,
+  topology: 'cyclic',
+  components: 1,
+  minCost: 1,
+  maxCost: 9,
+  directed: false,
+};
+
+export const MAX_GENERATED_NODES = 200;
+
+// Cells are wide enough that two nodes in neighbouring cells can never overlap
+const CELL = NODE_RADIUS * 2 + 24;
+const JITTER = 10;
+const MARGIN = NODE_RADIUS + 10;
+
+/** mulberry32: tiny, fast and good enough for picking edges. */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+interface Component {
+  ids: string[];
+  /** Edges that keep the component connected, from parent to child for trees. */
+  edges: [number, number][];
+  extraEdges: [number, number][];
+  positions: { x: number; y: number }[];
+  width: number;
+  height: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const randomTreeEdges = (size: number, random: () => number): [number, number][] =>
+  Array.from({ length: size - 1 }, (_, index) => [Math.floor(random() * (index + 1)), index + 1]);
+
+// Levels by depth from the component's first node, evenly spaced within each level
+const layeredPositions = (size: number, edges: [number, number][]) => {
+  const depth = new Array<number>(size).fill(0);
+  edges.forEach(([parent, child]) => (depth[child] = depth[parent] + 1));
+  const levels: number[][] = [];
+  depth.forEach((d, index) => (levels[d] = [...(levels[d] ?? []), index]));
+  const widest = Math.max(...levels.map(level => level.length));
+  const positions = new Array<{ x: number; y: number }>(size);
+  levels.forEach((level, d) =>
+    level.forEach((index, i) => {
+      positions[index] = { x: ((i + 0.5) * widest * CELL) / level.length, y: d * CELL + CELL / 2 };
+    }),
+  );
+  return { positions, width: widest * CELL, height: levels.length * CELL };
+};
+
+const gridShape = (size: number) => {
+  const columns = Math.max(1, Math.round(Math.sqrt(size / 2)));
+  return { columns, rows: Math.ceil(size / columns) };
+};
+
+const buildComponent = (
+  ids: string[],
+  topology: GraphTopology,
+  density: number,
+  random: () => number,
+): Component => {
+  const size = ids.length;
+
+  if (topology === 'tree') {
+    const edges = randomTreeEdges(size, random);
+    return { ids, edges, extraEdges: [], ...layeredPositions(size, edges) };
+  }
+
+  const { columns, rows } = gridShape(size);
+  const cellOf = (index: number) => ({ column: index % columns, row: Math.floor(index / columns) });
+
+  let edges: [number, number][];
+  const extraEdges: [number, number][] = [];
+  if (topology === 'grid') {
+    // A random spanning tree of the lattice keeps the grid connected; the other lattice edges are kept by density
+    const lattice: [number, number][] = [];
+    for (let index = 0; index < size; index++) {
+      const { column } = cellOf(index);
+      if (column + 1 < columns && index + 1 < size) lattice.push([index, index + 1]);
+      if (index + columns < size) lattice.push([index, index + columns]);
+    }
+    const root = Array.from({ length: size }, (_, index) => index);
+    const find = (index: number): number => (root[index] === index ? index : (root[index] = find(root[index])));
+    edges = [];
+    lattice
+      .map(edge => ({ edge, order: random() }))
+      .sort((a, b) => a.order - b.order)
+      .forEach(({ edge: [a, b] }) => {
+        if (find(a) !== find(b)) {
+          root[find(a)] = find(b);
+          edges.push([a, b]);
+        } else if (random() < density) {
+          extraEdges.push([a, b]);
+        }
+      });
+  } else {
+    edges = randomTreeEdges(size, random);
+    for (let a = 0; a < size; a++) {
+      for (let b = a + 1; b < size; b++) {
+        const linked = edges.some(([x, y]) => (x === a && y === b) || (x === b && y === a));
+        if (!linked && random() < density) extraEdges.push([a, b]);
+      }
+    }
+  }
+
+  // Grids sit exactly on their cells; cyclic graphs wobble a little inside them so edges do not all line up
+  const wobble = topology === 'cyclic' ? JITTER : 0;
+  const positions = ids.map((_, index) => {
+    const { column, row } = cellOf(index);
+    return {
+      x: (column + 0.5) * CELL + (random() * 2 - 1) * wobble,
+      y: (row + 0.5) * CELL + (random() * 2 - 1) * wobble,
+    };
+  });
+  return { ids, edges, extraEdges, positions, width: columns * CELL, height: rows * CELL };
+};
+
+export const generateGraph = (options: GeneratorOptions): GraphDocument => {
+  const random = createRandom(options.seed);
+  const nodeCount = clamp(Math.round(options.nodeCount), 1, MAX_GENERATED_NODES);
+  const componentCount = clamp(Math.round(options.components), 1, nodeCount);
+  const density = clamp(options.density, 0, 1);
+  const minCost = Math.max(0, Math.round(Math.min(options.minCost, options.maxCost)));
+  const maxCost = Math.max(minCost, Math.round(options.maxCost));
+  const randomCost = () => minCost + Math.floor(random() * (maxCost - minCost + 1));
+  const { directed } = options;
+
+  // Nodes are split as evenly as possible between the components
+  let nextIndex = 0;
+  const components = Array.from({ length: componentCount }, (_, index) => {
+    const size = Math.floor(nodeCount / componentCount) + (index < nodeCount % componentCount ? 1 : 0);
+    const ids = Array.from({ length: size }, () => idForIndex(nextIndex++));
+    return buildComponent(ids, options.topology, density, random);
+  });
+
+  // Components are laid out side by side
+  const graph: GraphNode[] = [];
+  let offsetX = MARGIN - CELL / 2;
+  components.forEach(({ ids, edges, extraEdges, positions, width }) => {
+    const nodes: GraphNode[] = ids.map((id, index) => ({
+      id,
+      x: Math.round(offsetX + positions[index].x),
+      y: Math.round(MARGIN - CELL / 2 + positions[index].y),
+      neighbors: [],
+    }));
+    const link = (from: number, to: number, cost: number) => nodes[from].neighbors.push({ id: ids[to], cost });
+
+    edges.forEach(([a, b]) => {
+      const cost = randomCost();
+      link(a, b, cost);
+      if (!directed) link(b, a, cost);
+      else if (options.topology === 'grid') link(b, a, randomCost());
+    });
+    extraEdges.forEach(([a, b]) => {
+      const cost = randomCost();
+      if (!directed) {
+        link(a, b, cost);
+        link(b, a, cost);
+      } else if (random() < 0.5) link(a, b, cost);
+      else link(b, a, cost);
+    });
+    graph.push(...nodes);
+    offsetX += width + CELL / 2;
+  });
+
+  const first = components[0].ids;
+  return {
+    graph,
+    endpoints: { start: first[0], goals: first.length > 1 ? [first[first.length - 1]] : [] },
+    directed,
+  };
+};
@@ -0,0 +1,169 @@
+import { NODE_RADIUS, type GraphNode } from './model';
+
+/**
+ * Automatic node placement. Every layout returns a copy of the graph with new
+ * coordinates, shifted so the top-left node sits a margin away from the origin
+ * and spaced so no two nodes overlap.
+ */
+
+export type LayoutKind = 'force' | 'layered' | 'circular';
+
+export const LAYOUTS: { kind: LayoutKind; label: string }[] = [
+  { kind: 'force', label: 'Force-directed' },
+  { kind: 'layered', label: 'Layered from start' },
+  { kind: 'circular', label: 'Circular' },
+];
+
+type Point = { x: number; y: number };
+
+const SPACING = NODE_RADIUS * 2 + 24;
+const MIN_DISTANCE = NODE_RADIUS * 2 + 8;
+const MARGIN = NODE_RADIUS + 10;
+const FORCE_ITERATIONS = 300;
+const GRAVITY = 2;
+
+// Layouts ignore direction: a one-way edge pulls both of its ends together
+const indexNeighbors = (graph: GraphNode[]) => {
+  const indexOf = new Map(graph.map((node, index) => [node.id, index]));
+  const neighbors = graph.map(() => new Set<number>());
+  graph.forEach((node, a) =>
+    node.neighbors.forEach(neighbor => {
+      const b = indexOf.get(neighbor.id);
+      if (b === undefined || b === a) return;
+      neighbors[a].add(b);
+      neighbors[b].add(a);
+    }),
+  );
+  return neighbors.map(set => [...set]);
+};
+
+const circlePoints = (count: number): Point[] => {
+  const radius = Math.max(SPACING, (SPACING * count) / (2 * Math.PI));
+  return Array.from({ length: count }, (_, index) => {
+    const angle = (2 * Math.PI * index) / count - Math.PI / 2;
+    return { x: radius * Math.cos(angle), y: radius * Math.sin(angle) };
+  });
+};
+
+// Breadth-first levels from the root; each unreached component gets its own block to the right
+const layeredPoints = (graph: GraphNode[], rootIndex: number): Point[] => {
+  const neighbors = indexNeighbors(graph);
+  const points = new Array<Point>(graph.length);
+  const placed = new Set<number>();
+  let offsetX = 0;
+
+  const order = [rootIndex, ...graph.map((_, index) => index).filter(index => index !== rootIndex)];
+  order.forEach(root => {
+    if (placed.has(root)) return;
+    const levels: number[][] = [[root]];
+    placed.add(root);
+    while (true) {
+      // Children follow their parents' order, which keeps most edges from crossing
+      const next: number[] = [];
+      levels[levels.length - 1].forEach(index =>
+        neighbors[index].forEach(neighbor => {
+          if (placed.has(neighbor)) return;
+          placed.add(neighbor);
+          next.push(neighbor);
+        }),
+      );
+      if (next.length === 0) break;
+      levels.push(next);
+    }
+    const widest = Math.max(...levels.map(level => level.length));
+    levels.forEach((level, depth) =>
+      level.forEach((index, i) => {
+        points[index] = { x: offsetX + ((i + 0.5) * widest * SPACING) / level.length, y: depth * SPACING };
+      }),
+    );
+    offsetX += (widest + 0.5) * SPACING;
+  });
+
+  return points;
+};
+
+/** Fruchterman–Reingold spring embedding, started from a circle so the result is deterministic. */
+const forcePoints = (graph: GraphNode[]): Point[] => {
+  const neighbors = indexNeighbors(graph);
+  const points = circlePoints(graph.length);
+  const k = SPACING;
+  let temperature = k * Math.sqrt(graph.length);
+
+  for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration++) {
+    const shifts = points.map(() => ({ x: 0, y: 0 }));
+
+    for (let a = 0; a < points.length; a++) {
+      for (let b = a + 1; b < points.length; b++) {
+        const dx = points[a].x - points[b].x;
+        const dy = points[a].y - points[b].y;
+        const distance = Math.max(0.01, Math.hypot(dx, dy));
+        const force = (k * k) / distance;
+        shifts[a].x += (dx / distance) * force;
+        shifts[a].y += (dy / distance) * force;
+        shifts[b].x -= (dx / distance) * force;
+        shifts[b].y -= (dy / distance) * force;
+      }
+    }
+
+    // Every edge appears on both endpoints, so each side only pulls itself
+    neighbors.forEach((list, a) =>
+      list.forEach(b => {
+        const dx = points[a].x - points[b].x;
+        const dy = points[a].y - points[b].y;
+        const distance = Math.max(0.01, Math.hypot(dx, dy));
+        const force = (distance * distance) / k;
+        shifts[a].x -= (dx / distance) * force;
+        shifts[a].y -= (dy / distance) * force;
+      }),
+    );
+
+    // A weak pull towards the centre keeps disconnected components from drifting apart
+    points.forEach((point, index) => {
+      shifts[index].x -= point.x * GRAVITY;
+      shifts[index].y -= point.y * GRAVITY;
+    });
+
+    points.forEach((point, index) => {
+      const length = Math.max(0.01, Math.hypot(shifts[index].x, shifts[index].y));
+      const step = Math.min(length, temperature);
+      point.x += (shifts[index].x / length) * step;
+      point.y += (shifts[index].y / length) * step;
+    });
+    temperature *= 0.98;
+  }
+
+  return points;
+};
+
+// Scales up until the closest pair is clear of each other, then moves everything next to the origin
+const normalize = (points: Point[]): Point[] => {
+  let closest = Infinity;
+  for (let a = 0; a < points.length; a++) {
+    for (let b = a + 1; b < points.length; b++) {
+      closest = Math.min(closest, Math.hypot(points[a].x - points[b].x, points[a].y - points[b].y));
+    }
+  }
+  const scale = closest < MIN_DISTANCE ? MIN_DISTANCE / Math.max(closest, 0.01) : 1;
+  const minX = Math.min(...points.map(point => point.x));
+  const minY = Math.min(...points.map(point => point.y));
+  return points.map(point => ({
+    x: Math.round((point.x - minX) * scale + MARGIN),
+    y: Math.round((point.y - minY) * scale + MARGIN),
+  }));
+};
+
+export const layoutGraph = (graph: GraphNode[], kind: LayoutKind, root?: string): GraphNode[] => {
+  if (graph.length === 0) return graph;
+
+  const rootIndex = Math.max(0, graph.findIndex(node => node.id === root));
+  let raw: Point[];
+  if (kind === 'force') raw = forcePoints(graph);
+  else if (kind === 'layered') raw = layeredPoints(graph, rootIndex);
+  else {
+    // The root goes at twelve o'clock and the rest follow clockwise
+    const circle = circlePoints(graph.length);
+    raw = graph.map((_, index) => circle[(index - rootIndex + graph.length) % graph.length]);
+  }
+  const points = normalize(raw);
+  return graph.map((node, index) => ({ ...node, ...points[index] }));
+};
@@ -0,0 +1,53 @@
+export interface Edge {
+  id: string;
+  cost: number;
+}
+
+export interface GraphNode {
+  id: string;
+  x: number;
+  y: number;
+  neighbors: Edge[];
+}
+
+export interface EdgeSegment {
+  from: GraphNode;
+  to: GraphNode;
+  cost: number;
+}
+
+export const CANVAS_WIDTH = 200;
+export const CANVAS_HEIGHT = 400;
+export const NODE_RADIUS = 20;
+
+export const DEFAULT_GRAPH: GraphNode[] = [
+  { id: 'A', x: 100, y: 50, neighbors: [{ id: 'B', cost: 4 }, { id: 'C', cost: 2 }] },
+  { id: 'B', x: 50, y: 150, neighbors: [{ id: 'A', cost: 4 }, { id: 'D', cost: 5 }, { id: 'E', cost: 1 }] },
+  { id: 'C', x: 150, y: 150, neighbors: [{ id: 'A', cost: 2 }, { id: 'F', cost: 3 }] },
+  { id: 'D', x: 25, y: 250, neighbors: [{ id: 'B', cost: 5 }] },
+  { id: 'E', x: 75, y: 250, neighbors: [{ id: 'B', cost: 1 }, { id: 'G', cost: 2 }] },
+  { id: 'F', x: 175, y: 250, neighbors: [{ id: 'C', cost: 3 }, { id: 'G', cost: 4 }] },
+  { id: 'G', x: 125, y: 350, neighbors: [{ id: 'E', cost: 2 }, { id: 'F', cost: 4 }] },
+];
+
+// The area the canvas view fits to; imported and generated graphs can be much larger than the default
+export const graphBounds = (graph: GraphNode[]) => ({
+  width: Math.max(CANVAS_WIDTH, ...graph.map(node => node.x + NODE_RADIUS * 2)),
+  height: Math.max(CANVAS_HEIGHT, ...graph.map(node => node.y + NODE_RADIUS * 2)),
+});
+
+export const findNode = (graph: GraphNode[], id: string) => graph.find(n => n.id === id);
+
+export const hasEdge = (graph: GraphNode[], from: string, to: string) =>
+  findNode(graph, from)?.neighbors.some(neighbor => neighbor.id === to) ?? false;
+
+// Undirected edges are stored on both endpoints but drawn once; directed edges are all drawn
+export const edgeSegments = (graph: GraphNode[], directed = false): EdgeSegment[] =>
+  graph.flatMap(node =>
+    node.neighbors
+      .filter(neighbor => directed || node.id < neighbor.id || !hasEdge(graph, neighbor.id, node.id))
+      .flatMap(neighbor => {
+        const to = findNode(graph, neighbor.id);
+        return to ? [{ from: node, to, cost: neighbor.cost }] : [];
+      }),
+  );
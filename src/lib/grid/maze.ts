@@ -0,0 +1,66 @@
+import { createRandom } from '@/lib/graph/generator';
+import type { GridWorld, Terrain } from './world';
+
+export interface MazeOptions {
+  seed: number;
+  rows: number;
+  columns: number;
+  /** Chance of knocking out each remaining inner wall, which adds alternative routes. */
+  loops: number;
+  /** Chance of each open cell becoming mud or water, so uniform-cost search has something to avoid. */
+  terrain: number;
+}
+
+// The size comes from whatever grid the maze replaces
+export const DEFAULT_MAZE_OPTIONS: Omit<MazeOptions, 'rows' | 'columns'> = { seed: 1, loops: 0.05, terrain: 0 };
+
+/**
+ * Recursive-backtracker maze. Rooms sit on even rows and columns and the cells
+ * between them are walls until the carver passes through, so a maze without
+ * loops has exactly one path between any two rooms. The same options always
+ * give the same maze.
+ */
+export const generateMaze = ({ seed, rows, columns, loops, terrain }: MazeOptions): GridWorld => {
+  const random = createRandom(seed);
+  const cells = new Array<Terrain>(rows * columns).fill('wall');
+  const indexOf = (row: number, column: number) => row * columns + column;
+  const isRoom = (row: number, column: number) =>
+    row >= 0 && column >= 0 && row < rows && column < columns && row % 2 === 0 && column % 2 === 0;
+
+  const directions = [[-2, 0], [0, 2], [2, 0], [0, -2]];
+  const stack: [number, number][] = [[0, 0]];
+  cells[0] = 'open';
+  while (stack.length > 0) {
+    const [row, column] = stack[stack.length - 1];
+    const unvisited = directions
+      .map(([dRow, dColumn]) => [row + dRow, column + dColumn])
+      .filter(([r, c]) => isRoom(r, c) && cells[indexOf(r, c)] === 'wall');
+    if (unvisited.length === 0) {
+      stack.pop();
+      continue;
+    }
+    const [nextRow, nextColumn] = unvisited[Math.floor(random() * unvisited.length)];
+    cells[indexOf((row + nextRow) / 2, (column + nextColumn) / 2)] = 'open';
+    cells[indexOf(nextRow, nextColumn)] = 'open';
+    stack.push([nextRow, nextColumn]);
+  }
+
+  // Only walls between two rooms are candidates; the pillars on odd rows and columns stay
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const between =
+        (row % 2 === 0 && column % 2 === 1 && isRoom(row, column + 1)) ||
+        (row % 2 === 1 && column % 2 === 0 && isRoom(row + 1, column));
+      if (between && cells[indexOf(row, column)] === 'wall' && random() < loops) cells[indexOf(row, column)] = 'open';
+    }
+  }
+
+  const goal = indexOf(rows - 1 - ((rows - 1) % 2), columns - 1 - ((columns - 1) % 2));
+  cells.forEach((cell, index) => {
+    if (cell === 'open' && index !== 0 && index !== goal && random() < terrain) {
+      cells[index] = random() < 0.5 ? 'mud' : 'water';
+    }
+  });
+
+  return { rows, columns, cells, start: 0, goal };
+};
@@ -0,0 +1,161 @@
+import { priorityFrontier, queueFrontier, stackFrontier, type SearchOptions, type SearchProblem } from '@/lib/search/engine';
+import type { ComparedAlgorithm } from '@/lib/search/comparison';
+
+/**
+ * A 2D grid world for pathfinding. Cells are stored row by row and searched
+ * under "row,column" ids, so the engine that runs on graphs runs here
+ * unchanged: each open cell is a node linked to its four open neighbours.
+ */
+
+export type Terrain = 'open' | 'mud' | 'water' | 'wall';
+
+/** Entering a cell costs its terrain's cost; walls cannot be entered at all. */
+export const TERRAINS: { terrain: Terrain; label: string; cost: number; symbol: string }[] = [
+  { terrain: 'open', label: 'Open', cost: 1, symbol: '.' },
+  { terrain: 'mud', label: 'Mud', cost: 3, symbol: 'm' },
+  { terrain: 'water', label: 'Water', cost: 5, symbol: 'w' },
+  { terrain: 'wall', label: 'Wall', cost: Infinity, symbol: '#' },
+];
+
+export interface GridWorld {
+  rows: number;
+  columns: number;
+  /** Row by row, `rows * columns` long. */
+  cells: Terrain[];
+  start: number;
+  goal: number;
+}
+
+export const MIN_GRID_SIZE = 3;
+export const MAX_GRID_SIZE = 40;
+
+export const terrainCost = (terrain: Terrain) => TERRAINS.find(entry => entry.terrain === terrain)!.cost;
+
+export const cellId = (world: GridWorld, index: number) =>
+  `${Math.floor(index / world.columns)},${index % world.columns}`;
+
+export const cellIndex = (world: GridWorld, id: string) => {
+  const [row, column] = id.split(',').map(Number);
+  return row * world.columns + column;
+};
+
+export const createGrid = (rows: number, columns: number): GridWorld => ({
+  rows,
+  columns,
+  cells: new Array<Terrain>(rows * columns).fill('open'),
+  start: 0,
+  goal: rows * columns - 1,
+});
+
+// A wall with a gap and a patch of mud, so BFS and UCS already disagree on the default grid
+const DEFAULT_MAP = [
+  '............#.......',
+  '............#.......',
+  '....#####...#.......',
+  '........#...#...mmm.',
+  '........#...#...mmm.',
+  '........#.......mmm.',
+  '........#...#...mmm.',
+  '..wwww..#...#.......',
+  '..wwww..#...#####...',
+  '........#...........',
+  '........#...........',
+  '............#.......',
+];
+
+export const DEFAULT_WORLD: GridWorld = {
+  rows: DEFAULT_MAP.length,
+  columns: DEFAULT_MAP[0].length,
+  cells: DEFAULT_MAP.join('').split('').map(symbol => TERRAINS.find(entry => entry.symbol === symbol)!.terrain),
+  start: 5 * DEFAULT_MAP[0].length + 2,
+  goal: 5 * DEFAULT_MAP[0].length + 18,
+};
+
+// Start and goal always sit on passable cells, so painting a wall over them does nothing
+export const paintCell = (world: GridWorld, index: number, terrain: Terrain): GridWorld => {
+  if (world.cells[index] === terrain) return world;
+  if (terrain === 'wall' && (index === world.start || index === world.goal)) return world;
+  return { ...world, cells: world.cells.map((cell, i) => (i === index ? terrain : cell)) };
+};
+
+const openIfWall = (cells: Terrain[], index: number) =>
+  cells[index] === 'wall' ? cells.map((cell, i) => (i === index ? 'open' : cell)) : cells;
+
+export const moveStart = (world: GridWorld, index: number): GridWorld =>
+  index === world.goal ? world : { ...world, cells: openIfWall(world.cells, index), start: index };
+
+export const moveGoal = (world: GridWorld, index: number): GridWorld =>
+  index === world.start ? world : { ...world, cells: openIfWall(world.cells, index), goal: index };
+
+/** Keeps the overlapping part of the grid; start and goal are pulled inside if they fall off. */
+export const resizeGrid = (world: GridWorld, rows: number, columns: number): GridWorld => {
+  const cells = Array.from({ length: rows * columns }, (_, index) => {
+    const row = Math.floor(index / columns);
+    const column = index % columns;
+    return row < world.rows && column < world.columns ? world.cells[row * world.columns + column] : 'open';
+  });
+  const clampIndex = (index: number) =>
+    Math.min(Math.floor(index / world.columns), rows - 1) * columns + Math.min(index % world.columns, columns - 1);
+  const start = clampIndex(world.start);
+  let goal = clampIndex(world.goal);
+  if (goal === start) goal = start === rows * columns - 1 ? 0 : rows * columns - 1;
+  return moveGoal(moveStart({ ...world, rows, columns, cells, start: -1, goal: -1 }, start), goal);
+};
+
+// Up, right, down, left: the fixed order decides how depth-first search snakes through open space
+export const neighborsOf = (world: GridWorld, index: number): number[] => {
+  const row = Math.floor(index / world.columns);
+  const column = index % world.columns;
+  return [
+    row > 0 ? index - world.columns : -1,
+    column < world.columns - 1 ? index + 1 : -1,
+    row < world.rows - 1 ? index + world.columns : -1,
+    column > 0 ? index - 1 : -1,
+  ].filter(neighbor => neighbor >= 0 && world.cells[neighbor] !== 'wall');
+};
+
+// Unweighted searches count moves; UCS pays for the terrain of each cell it enters
+export const gridProblem = (world: GridWorld, weighted: boolean): SearchProblem => {
+  const goal = cellId(world, world.goal);
+  return {
+    start: cellId(world, world.start),
+    isGoal: id => id === goal,
+    expand: id =>
+      neighborsOf(world, cellIndex(world, id)).map(neighbor => ({
+        id: cellId(world, neighbor),
+        cost: weighted ? terrainCost(world.cells[neighbor]) : 1,
+      })),
+  };
+};
+
+export const gridSearchOptions = (algorithm: ComparedAlgorithm, depthLimit: number): SearchOptions => {
+  switch (algorithm) {
+    case 'bfs':
+      return { frontier: queueFrontier };
+    case 'dfs':
+      return { frontier: stackFrontier };
+    case 'dls':
+      return { frontier: stackFrontier, depthLimit };
+    case 'ucs':
+      return { frontier: priorityFrontier };
+  }
+};
+
+// Runs of three or more equal cells become "<count><symbol>", which keeps mazes and open grids short in a link
+export const encodeCells = (cells: Terrain[]) =>
+  cells
+    .map(cell => TERRAINS.find(entry => entry.terrain === cell)!.symbol)
+    .join('')
+    .replace(/(.)\1{2,}/g, run => `${run.length}${run[0]}`);
+
+/** Returns null if the text has an unknown symbol or describes more cells than any grid can hold. */
+export const decodeCells = (text: string): Terrain[] | null => {
+  const symbols = TERRAINS.map(entry => entry.symbol.replace(/[.#]/, '\\$&')).join('');
+  if (!new RegExp(`^(\\d*[${symbols}])*$`).test(text)) return null;
+  const runs = [...text.matchAll(new RegExp(`(\\d*)([${symbols}])`, 'g'))].map(([, count, symbol]) => ({
+    length: count ? Number(count) : 1,
+    terrain: TERRAINS.find(entry => entry.symbol === symbol)!.terrain,
+  }));
+  if (runs.reduce((total, run) => total + run.length, 0) > MAX_GRID_SIZE * MAX_GRID_SIZE) return null;
+  return runs.flatMap(run => new Array<Terrain>(run.length).fill(run.terrain));
+};
@@ -0,0 +1,163 @@
+/**
+ * Sliding-tile boards of any square size. Boards are read row by row and 0 is
+ * the blank; moves are named after the direction the blank travels.
+ */
+
+export const PUZZLE_SIZES = [3, 4, 5] as const;
+export type PuzzleSize = (typeof PUZZLE_SIZES)[number];
+
+export type Move = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT';
+
+export class BoardFormatError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(problems.join('\n'));
+    this.name = 'BoardFormatError';
+    this.problems = problems;
+  }
+}
+
+const MOVE_OFFSETS: { move: Move; dr: number; dc: number }[] = [
+  { move: 'UP', dr: -1, dc: 0 },
+  { move: 'DOWN', dr: 1, dc: 0 },
+  { move: 'LEFT', dr: 0, dc: -1 },
+  { move: 'RIGHT', dr: 0, dc: 1 },
+];
+
+export const boardSize = (board: readonly number[]) => Math.round(Math.sqrt(board.length));
+
+export const goalBoard = (size: number) => [...Array.from({ length: size * size - 1 }, (_, i) => i + 1), 0];
+
+export const puzzleName = (size: number) => `${size * size - 1}-Puzzle`;
+
+/** Where the blank can go from `blank`, with the index it lands on. */
+export const blankMoves = (size: number, blank: number): { move: Move; to: number }[] => {
+  const row = Math.floor(blank / size);
+  const col = blank % size;
+  return MOVE_OFFSETS.filter(({ dr, dc }) => row + dr >= 0 && row + dr < size && col + dc >= 0 && col + dc < size).map(
+    ({ move, dr, dc }) => ({ move, to: (row + dr) * size + col + dc }),
+  );
+};
+
+export const slideBlank = (board: readonly number[], blank: number, to: number) => {
+  const next = [...board];
+  [next[blank], next[to]] = [next[to], next[blank]];
+  return next;
+};
+
+export const applyMoves = (board: readonly number[], moves: readonly Move[]) => {
+  const size = boardSize(board);
+  return moves.reduce<number[]>((current, move) => {
+    const blank = current.indexOf(0);
+    const target = blankMoves(size, blank).find(option => option.move === move);
+    return target ? slideBlank(current, blank, target.to) : current;
+  }, [...board]);
+};
+
+export const manhattanDistance = (board: readonly number[], goal: readonly number[]) => {
+  const size = boardSize(board);
+  return board.reduce((distance, tile, i) => {
+    if (tile === 0) return distance;
+    const goalPos = goal.indexOf(tile);
+    return distance + Math.abs(Math.floor(i / size) - Math.floor(goalPos / size)) + Math.abs((i % size) - (goalPos % size));
+  }, 0);
+};
+
+/** Random walk of the blank from `goal`, so the result is always solvable. */
+export const shuffleBoard = (goal: readonly number[], moves: number, random = Math.random) => {
+  const size = boardSize(goal);
+  let board = [...goal];
+  let blank = board.indexOf(0);
+  for (let i = 0; i < moves; i++) {
+    const options = blankMoves(size, blank);
+    const { to } = options[Math.floor(random() * options.length)];
+    board = slideBlank(board, blank, to);
+    blank = to;
+  }
+  return board;
+};
+
+// Two moves from the goal: a board every strategy solves at a glance
+export const initialBoard = (size: number) => applyMoves(goalBoard(size), ['UP', 'LEFT']);
+
+/** Half of all arrangements are reachable from any given board, so (n²)!/2. */
+export const reachableStates = (size: number) => {
+  let count = 1;
+  for (let i = 2; i <= size * size; i++) count *= i;
+  return count / 2;
+};
+
+// One row per line, so a typed board looks like the board it describes
+export const formatBoard = (board: readonly number[]) => {
+  const size = boardSize(board);
+  return Array.from({ length: size }, (_, row) =>
+    board
+      .slice(row * size, (row + 1) * size)
+      .map(tile => (tile === 0 ? '_' : String(tile)))
+      .join(' '),
+  ).join('\n');
+};
+
+/** Reads tiles separated by spaces, commas or new lines, with 0 or "_" for the blank. Throws a BoardFormatError. */
+export const parseBoard = (text: string, size: number): number[] => {
+  const tokens = text.split(/[\s,]+/).filter(Boolean);
+  const count = size * size;
+  const problems: string[] = [];
+  if (tokens.length !== count) problems.push(`A ${size}×${size} board needs ${count} tiles, but there are ${tokens.length}.`);
+
+  const tiles = tokens.map(token => (token === '_' ? 0 : /^\d+$/.test(token) ? Number(token) : NaN));
+  tokens.forEach((token, i) => {
+    if (Number.isNaN(tiles[i])) problems.push(`"${token}" is not a tile; use the numbers 1–${count - 1} and 0 or _ for the blank.`);
+    else if (tiles[i] >= count) problems.push(`Tile ${tiles[i]} does not exist on a ${size}×${size} board.`);
+  });
+  for (let tile = 0; tile < count; tile++) {
+    const seen = tiles.filter(t => t === tile).length;
+    const name = tile === 0 ? 'The blank' : `Tile ${tile}`;
+    if (seen > 1) problems.push(`${name} appears ${seen} times.`);
+    else if (seen === 0 && tokens.length === count) problems.push(`${name} is missing.`);
+  }
+
+  if (problems.length > 0) throw new BoardFormatError(problems);
+  return tiles;
+};
+
+/** Pairs of tiles that appear in the opposite order to the goal's, ignoring the blank. */
+export const inversionCount = (board: readonly number[], goal: readonly number[]) => {
+  const order = board.filter(tile => tile !== 0).map(tile => goal.indexOf(tile));
+  let inversions = 0;
+  for (let i = 0; i < order.length; i++) {
+    for (let j = i + 1; j < order.length; j++) if (order[i] > order[j]) inversions++;
+  }
+  return inversions;
+};
+
+/**
+ * Null when `goal` can be reached from `board`, otherwise an explanation. A
+ * sideways move never changes the inversion count. On an odd-width board a
+ * vertical move changes it by an even number; on an even-width board by an odd
+ * number, while also moving the blank one row. So the parity of the inversions
+ * (plus the blank's row distance on even widths) can never change.
+ */
+export const unsolvableReason = (board: readonly number[], goal: readonly number[]): string | null => {
+  const size = boardSize(board);
+  const inversions = inversionCount(board, goal);
+  const counted = `${inversions} inversion${inversions === 1 ? '' : 's'} (pairs of tiles in the opposite order to the goal)`;
+  if (size % 2 === 1) {
+    if (inversions % 2 === 0) return null;
+    return (
+      `This board has ${counted}. On a ${size}-wide board every move changes that count by an even number, ` +
+      'so an odd count can never reach the goal, which has none. Swap any two tiles to fix it.'
+    );
+  }
+  const rowShift = Math.abs(Math.floor(board.indexOf(0) / size) - Math.floor(goal.indexOf(0) / size));
+  if ((inversions + rowShift) % 2 === 0) return null;
+  return (
+    `This board has ${counted} and its blank is ${rowShift} row${rowShift === 1 ? '' : 's'} away from the goal's. ` +
+    `On a ${size}-wide board every move keeps the parity of those two numbers added together, ` +
+    'which is odd here but zero at the goal. Swap any two tiles to fix it.'
+  );
+};
+
+export const GOAL_BOARD = goalBoard(3);
+export const INITIAL_BOARD = initialBoard(3);
@@ -0,0 +1,328 @@
+import { blankMoves, boardSize, slideBlank } from './board';
+
+/**
+ * Estimates of how many moves a board is from the goal. Each heuristic is
+ * built for one goal board, which it indexes once, so estimating a board only
+ * walks its tiles.
+ */
+export type Heuristic = (board: readonly number[]) => number;
+
+export type HeuristicId = 'misplaced' | 'manhattan' | 'linear-conflict' | 'custom';
+
+export interface HeuristicInfo {
+  id: HeuristicId;
+  label: string;
+  description: string;
+  /** Proven for every board size; null when it depends on the expression. */
+  admissible: boolean | null;
+  consistent: boolean | null;
+}
+
+export const HEURISTICS: HeuristicInfo[] = [
+  {
+    id: 'misplaced',
+    label: 'Misplaced tiles',
+    description: 'Tiles not on their goal square. Each needs at least one move.',
+    admissible: true,
+    consistent: true,
+  },
+  {
+    id: 'manhattan',
+    label: 'Manhattan distance',
+    description: 'Rows plus columns between each tile and its goal square.',
+    admissible: true,
+    consistent: true,
+  },
+  {
+    id: 'linear-conflict',
+    label: 'Linear conflict',
+    description: 'Manhattan distance plus two moves for every tile that must step aside to let another in its goal row or column pass.',
+    admissible: true,
+    consistent: true,
+  },
+  {
+    id: 'custom',
+    label: 'Custom expression',
+    description: 'Any formula over the other estimates.',
+    admissible: null,
+    consistent: null,
+  },
+];
+
+export const heuristicLabel = (id: HeuristicId) => HEURISTICS.find(info => info.id === id)!.label;
+
+export class ExpressionError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(problems.join('\n'));
+    this.name = 'ExpressionError';
+    this.problems = problems;
+  }
+}
+
+// Where each tile sits on the goal board, so lookups are not a search
+const goalPositions = (goal: readonly number[]) => {
+  const positions = new Array<number>(goal.length);
+  goal.forEach((tile, index) => (positions[tile] = index));
+  return positions;
+};
+
+export const misplacedTiles = (goal: readonly number[]): Heuristic => board =>
+  board.reduce((count, tile, index) => (tile !== 0 && tile !== goal[index] ? count + 1 : count), 0);
+
+export const manhattan = (goal: readonly number[]): Heuristic => {
+  const positions = goalPositions(goal);
+  const size = boardSize(goal);
+  return board => {
+    let distance = 0;
+    for (let index = 0; index < board.length; index++) {
+      const tile = board[index];
+      if (tile === 0) continue;
+      const target = positions[tile];
+      distance += Math.abs(Math.floor(index / size) - Math.floor(target / size)) + Math.abs((index % size) - (target % size));
+    }
+    return distance;
+  };
+};
+
+// Length of the longest increasing run that can be kept by removing other entries
+const longestIncreasing = (values: number[]) => {
+  const tails: number[] = [];
+  for (const value of values) {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (tails[middle] < value) low = middle + 1;
+      else high = middle;
+    }
+    tails[low] = value;
+  }
+  return tails.length;
+};
+
+/**
+ * Tiles that have to leave their goal row or column so the others in it can
+ * get past. Counting the fewest removals per line, rather than every crossing
+ * pair, is what keeps three tiles in reverse order from being charged three
+ * times.
+ */
+export const linearConflicts = (goal: readonly number[]): Heuristic => {
+  const positions = goalPositions(goal);
+  const size = boardSize(goal);
+  return board => {
+    let conflicts = 0;
+    for (let line = 0; line < size; line++) {
+      const inRow: number[] = [];
+      const inColumn: number[] = [];
+      for (let offset = 0; offset < size; offset++) {
+        const rowTile = board[line * size + offset];
+        if (rowTile !== 0 && Math.floor(positions[rowTile] / size) === line) inRow.push(positions[rowTile] % size);
+        const columnTile = board[offset * size + line];
+        if (columnTile !== 0 && positions[columnTile] % size === line) inColumn.push(Math.floor(positions[columnTile] / size));
+      }
+      conflicts += inRow.length - longestIncreasing(inRow) + inColumn.length - longestIncreasing(inColumn);
+    }
+    return conflicts;
+  };
+};
+
+export const linearConflict = (goal: readonly number[]): Heuristic => {
+  const distance = manhattan(goal);
+  const conflicts = linearConflicts(goal);
+  return board => distance(board) + 2 * conflicts(board);
+};
+
+export const EXPRESSION_VARIABLES = ['misplaced', 'manhattan', 'conflicts'] as const;
+type Variable = (typeof EXPRESSION_VARIABLES)[number];
+type Evaluate = (values: Readonly<Record<Variable, number>>) => number;
+
+const FUNCTIONS: Record<string, { arity: [number, number]; apply: (...args: number[]) => number }> = {
+  max: { arity: [1, Infinity], apply: Math.max },
+  min: { arity: [1, Infinity], apply: Math.min },
+  abs: { arity: [1, 1], apply: Math.abs },
+};
+
+export const DEFAULT_EXPRESSION = 'manhattan + conflicts';
+
+/**
+ * Compiles an arithmetic expression over the variables in
+ * EXPRESSION_VARIABLES, with + - * /, parentheses and max, min and abs.
+ * Throws an ExpressionError listing what is wrong with it.
+ */
+export const parseExpression = (text: string): Evaluate => {
+  const tokens = text.match(/\d+(?:\.\d+)?|[a-z_]\w*|\S/gi) ?? [];
+  const problems: string[] = [];
+  tokens.forEach(token => {
+    if (/^[a-z_]/i.test(token)) {
+      if (!(EXPRESSION_VARIABLES as readonly string[]).includes(token) && !Object.hasOwn(FUNCTIONS, token)) {
+        problems.push(`Unknown name "${token}"; use ${EXPRESSION_VARIABLES.join(', ')}, or max, min and abs.`);
+      }
+    } else if (!/^[\d.]/.test(token) && !'+-*/(),'.includes(token)) problems.push(`Unexpected character "${token}".`);
+  });
+  if (tokens.length === 0) problems.push('The expression is empty.');
+  if (problems.length > 0) throw new ExpressionError(problems);
+
+  let at = 0;
+  const fail = (expected: string): never => {
+    throw new ExpressionError([
+      at < tokens.length ? `Expected ${expected} but found "${tokens[at]}".` : `Expected ${expected} at the end.`,
+    ]);
+  };
+  const accept = (token: string) => {
+    if (tokens[at] !== token) return false;
+    at++;
+    return true;
+  };
+
+  const parseSum = (): Evaluate => {
+    let left = parseProduct();
+    while (tokens[at] === '+' || tokens[at] === '-') {
+      const operator = tokens[at++];
+      const [a, b] = [left, parseProduct()];
+      left = operator === '+' ? values => a(values) + b(values) : values => a(values) - b(values);
+    }
+    return left;
+  };
+
+  const parseProduct = (): Evaluate => {
+    let left = parseUnary();
+    while (tokens[at] === '*' || tokens[at] === '/') {
+      const operator = tokens[at++];
+      const [a, b] = [left, parseUnary()];
+      left = operator === '*' ? values => a(values) * b(values) : values => a(values) / b(values);
+    }
+    return left;
+  };
+
+  const parseUnary = (): Evaluate => {
+    if (accept('-')) {
+      const operand = parseUnary();
+      return values => -operand(values);
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Evaluate => {
+    const token = tokens[at];
+    if (token === undefined) return fail('a number, name or "("');
+    if (accept('(')) {
+      const inner = parseSum();
+      if (!accept(')')) fail('")"');
+      return inner;
+    }
+    if (/^\d/.test(token)) {
+      at++;
+      const value = Number(token);
+      return () => value;
+    }
+    if (Object.hasOwn(FUNCTIONS, token)) {
+      at++;
+      if (!accept('(')) fail(`"(" after ${token}`);
+      const args = [parseSum()];
+      while (accept(',')) args.push(parseSum());
+      if (!accept(')')) fail('"," or ")"');
+      const { arity, apply } = FUNCTIONS[token];
+      if (args.length < arity[0] || args.length > arity[1]) {
+        throw new ExpressionError([`${token} takes ${arity[0] === arity[1] ? arity[0] : `at least ${arity[0]}`} argument(s), not ${args.length}.`]);
+      }
+      return values => apply(...args.map(arg => arg(values)));
+    }
+    if ((EXPRESSION_VARIABLES as readonly string[]).includes(token)) {
+      at++;
+      return values => values[token as Variable];
+    }
+    return fail('a number, name or "("');
+  };
+
+  const evaluate = parseSum();
+  if (at < tokens.length) fail('an operator');
+  return evaluate;
+};
+
+// Negative, infinite or undefined results would break the frontier's ordering, so they count as 0
+const asEstimate = (value: number) => (Number.isFinite(value) ? Math.max(0, value) : 0);
+
+/** Builds the heuristic for `goal`. A custom expression that does not compile throws an ExpressionError. */
+export const createHeuristic = (id: HeuristicId, goal: readonly number[], expression = DEFAULT_EXPRESSION): Heuristic => {
+  switch (id) {
+    case 'misplaced':
+      return misplacedTiles(goal);
+    case 'manhattan':
+      return manhattan(goal);
+    case 'linear-conflict':
+      return linearConflict(goal);
+    case 'custom': {
+      const evaluate = parseExpression(expression);
+      const [misplaced, distance, conflicts] = [misplacedTiles(goal), manhattan(goal), linearConflicts(goal)];
+      return board => asEstimate(evaluate({ misplaced: misplaced(board), manhattan: distance(board), conflicts: conflicts(board) }));
+    }
+  }
+};
+
+// Only the 8-puzzle is small enough to visit every board
+export const MAX_CHECKED_SIZE = 3;
+
+export interface HeuristicCheck {
+  admissible: boolean;
+  consistent: boolean;
+  /** A board the heuristic overestimates, if there is one. */
+  overestimate: { board: number[]; estimate: number; actual: number } | null;
+  boards: number;
+}
+
+let cachedDistances: { goal: string; boards: number[][]; distances: Map<string, number> } | null = null;
+
+// Breadth-first search outwards from the goal gives every board's true distance, since moves are reversible
+const distancesFrom = (goal: readonly number[]) => {
+  const goalKey = goal.join(',');
+  if (cachedDistances?.goal === goalKey) return cachedDistances;
+  const size = boardSize(goal);
+  const boards = [[...goal]];
+  const distances = new Map([[goalKey, 0]]);
+  for (let head = 0; head < boards.length; head++) {
+    const board = boards[head];
+    const blank = board.indexOf(0);
+    const distance = distances.get(board.join(','))!;
+    for (const { to } of blankMoves(size, blank)) {
+      const next = slideBlank(board, blank, to);
+      const key = next.join(',');
+      if (distances.has(key)) continue;
+      distances.set(key, distance + 1);
+      boards.push(next);
+    }
+  }
+  cachedDistances = { goal: goalKey, boards, distances };
+  return cachedDistances;
+};
+
+/**
+ * Tests a heuristic against every board that can reach `goal`, with one move
+ * costing 1: admissible if it never estimates more than the true distance,
+ * consistent if one move never lowers it by more than 1. Larger move costs
+ * only make both easier to meet. Only boards up to MAX_CHECKED_SIZE wide.
+ */
+export const checkHeuristic = (heuristic: Heuristic, goal: readonly number[]): HeuristicCheck => {
+  const size = boardSize(goal);
+  if (size > MAX_CHECKED_SIZE) throw new Error(`Only boards up to ${MAX_CHECKED_SIZE}×${MAX_CHECKED_SIZE} can be checked exhaustively.`);
+  const { boards, distances } = distancesFrom(goal);
+  const estimates = new Map(boards.map(board => [board.join(','), heuristic(board)]));
+
+  let overestimate: HeuristicCheck['overestimate'] = null;
+  let consistent = true;
+  for (const board of boards) {
+    const key = board.join(',');
+    const estimate = estimates.get(key)!;
+    const actual = distances.get(key)!;
+    if (estimate > actual && (!overestimate || estimate - actual > overestimate.estimate - overestimate.actual)) {
+      overestimate = { board, estimate, actual };
+    }
+    if (consistent) {
+      const blank = board.indexOf(0);
+      consistent = blankMoves(size, blank).every(({ to }) => estimate <= 1 + estimates.get(slideBlank(board, blank, to).join(','))!);
+    }
+  }
+  // Consistency also asks for an estimate of 0 at the goal itself
+  return { admissible: overestimate === null, consistent: consistent && estimates.get(goal.join(',')) === 0, overestimate, boards: boards.length };
+};
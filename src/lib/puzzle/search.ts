@@ -0,0 +1,490 @@
+import type { Direction } from '@/lib/search/bidirectional';
+import type { SearchStatus } from '@/lib/search/engine';
+import { createHeap } from '@/lib/search/heap';
+import { blankMoves, boardSize, slideBlank, type Move } from './board';
+import { manhattan, type Heuristic } from './heuristics';
+
+/**
+ * Sliding-puzzle search sized for whole state spaces. Boards are identified by
+ * a string key, the open and closed sets are Maps over those keys and the
+ * cost-ordered strategies take from a binary heap, so a step costs the same at
+ * step 10 as at step 100,000.
+ *
+ * That bookkeeping is mutable and shared by every snapshot of a run. A snapshot
+ * only records the node expanded at its step and the set sizes, which keeps a
+ * replayable history of a full 8-puzzle run small; the nodes note when they
+ * joined and left the sets, so listsAt can rebuild them for any snapshot.
+ * Only the newest snapshot of a run can be stepped.
+ *
+ * Snapshots are plain data, so a run can be made in a worker and posted back
+ * for replay. What stepping needs besides, the heuristic and the frontiers,
+ * stays behind with the thread that started the run.
+ */
+
+export const PUZZLE_STRATEGIES = [
+  'bfs',
+  'dfs',
+  'dls',
+  'ids',
+  'ucs',
+  'bidirectional',
+  'greedy',
+  'astar',
+  'weighted',
+  'idastar',
+] as const;
+export type PuzzleStrategy = (typeof PUZZLE_STRATEGIES)[number];
+
+export const STRATEGY_LABELS: Record<PuzzleStrategy, string> = {
+  bfs: 'BFS',
+  dfs: 'DFS',
+  dls: 'DLS',
+  ids: 'IDS',
+  ucs: 'UCS',
+  bidirectional: 'Bidirectional BFS',
+  greedy: 'Greedy Best-First',
+  astar: 'A*',
+  weighted: 'Weighted A*',
+  idastar: 'IDA*',
+};
+
+/** The strategies that are steered by a heuristic. */
+export const INFORMED_STRATEGIES: readonly PuzzleStrategy[] = ['greedy', 'astar', 'weighted', 'idastar'];
+
+/** 'tile' charges the number on the tile being slid, so the cheapest route and the shortest differ. */
+export type MoveCost = 'unit' | 'tile';
+
+// Room to exhaust all 181,440 boards of the 8-puzzle; larger boards stop here instead of filling memory
+export const MAX_PUZZLE_STEPS = 200_000;
+
+// Well past the 80 moves the hardest 15-puzzle needs
+export const MAX_DEPTH_LIMIT = 100;
+
+export const MIN_WEIGHT = 1;
+export const MAX_WEIGHT = 10;
+
+export interface PuzzleSearchOptions {
+  strategy: PuzzleStrategy;
+  moveCost?: MoveCost;
+  /** Only read by depth-limited search; iterative deepening starts at 0 and raises its own. */
+  depthLimit?: number;
+  /** Defaults to the Manhattan distance to the goal. */
+  heuristic?: Heuristic;
+  /** How much Weighted A* trusts the heuristic over the cost so far. */
+  weight?: number;
+}
+
+export interface PuzzleNode {
+  board: number[];
+  key: string;
+  blank: number;
+  /** Cost of the moves made so far, g(n). */
+  cost: number;
+  /** The run's estimate of the cost still to go, h(n). */
+  heuristic: number;
+  depth: number;
+  move: Move | null;
+  parent: PuzzleNode | null;
+  /** Generation order, which breaks ties so equally good nodes come out first in, first out. */
+  order: number;
+  /**
+   * The steps at which the node joined the open list, was expanded, and was
+   * dropped, either for a better route to its board or by a new deepening
+   * pass. Filled in as the run goes, so any step's lists can be rebuilt.
+   */
+  openedAt: number;
+  closedAt: number | null;
+  droppedAt: number | null;
+}
+
+interface Frontier {
+  add: (node: PuzzleNode) => void;
+  take: () => PuzzleNode | undefined;
+}
+
+interface SearchSide {
+  frontier: Frontier;
+  /** The entry each open board is queued as; a cheaper or shallower route swaps in a new one. */
+  open: Map<string, PuzzleNode>;
+  /** Expanded boards, in the order they were expanded. */
+  closed: Map<string, PuzzleNode>;
+}
+
+export interface PuzzleLists {
+  open: PuzzleNode[];
+  closed: PuzzleNode[];
+}
+
+// The part of a run only the thread that started it holds, since functions cannot be posted between threads
+interface RunState {
+  heuristic: Heuristic;
+  forward: SearchSide;
+  /** Only bidirectional search grows a second side, rooted at the goal. */
+  backward: SearchSide | null;
+  turn: Direction;
+}
+
+export interface PuzzleRun {
+  strategy: PuzzleStrategy;
+  moveCost: MoveCost;
+  weight: number;
+  goal: number[];
+  goalKey: string;
+  size: number;
+  root: PuzzleNode;
+  limit: number | null;
+  /** The smallest f-cost IDA* has cut off in this pass, which becomes the next pass's bound. */
+  nextLimit: number;
+  cutoffReached: boolean;
+  generated: number;
+  /** Successor boards turned away because the side had already reached them as cheaply. */
+  duplicates: number;
+  /** Every node that was ever queued, in generation order. */
+  queued: PuzzleNode[];
+  step: number;
+}
+
+export interface PuzzleSnapshot {
+  strategy: PuzzleStrategy;
+  current: PuzzleNode | null;
+  openSize: number;
+  closedSize: number;
+  /** Successor boards produced so far, counting the duplicates among them. */
+  generated: number;
+  duplicates: number;
+  /** The depth limit of DLS or the current IDS pass, or the f-cost bound of the current IDA* pass. */
+  limit: number | null;
+  /** Whether some board was left unexpanded because it was past the limit. */
+  cutoffReached: boolean;
+  /** Which end of a bidirectional search `current` was expanded from. */
+  direction: Direction | null;
+  step: number;
+  status: SearchStatus;
+  /** Null until a search starts. */
+  run: PuzzleRun | null;
+}
+
+export const boardKey = (board: readonly number[]) => board.join(',');
+
+const runStates = new WeakMap<PuzzleRun, RunState>();
+
+const INVERSE_MOVES: Record<Move, Move> = { UP: 'DOWN', DOWN: 'UP', LEFT: 'RIGHT', RIGHT: 'LEFT' };
+
+// Reads from a moving head instead of shifting, which would copy the whole queue every step
+const queueFrontier = (): Frontier => {
+  const items: PuzzleNode[] = [];
+  let head = 0;
+  return {
+    add: node => items.push(node),
+    take: () => (head < items.length ? items[head++] : undefined),
+  };
+};
+
+const stackFrontier = (): Frontier => {
+  const items: PuzzleNode[] = [];
+  return { add: node => items.push(node), take: () => items.pop() };
+};
+
+const heapFrontier = (priority: (node: PuzzleNode) => number): Frontier => {
+  const heap = createHeap<PuzzleNode>((a, b) => priority(a) - priority(b) || a.order - b.order);
+  return { add: heap.push, take: heap.pop };
+};
+
+const createFrontier = (strategy: PuzzleStrategy, weight: number): Frontier => {
+  switch (strategy) {
+    case 'bfs':
+    case 'bidirectional':
+      return queueFrontier();
+    case 'dfs':
+    case 'dls':
+    case 'ids':
+    case 'idastar':
+      return stackFrontier();
+    case 'ucs':
+      return heapFrontier(node => node.cost);
+    case 'greedy':
+      return heapFrontier(node => node.heuristic);
+    case 'astar':
+      return heapFrontier(node => node.cost + node.heuristic);
+    case 'weighted':
+      return heapFrontier(node => node.cost + weight * node.heuristic);
+  }
+};
+
+const createSide = (run: Pick<PuzzleRun, 'strategy' | 'weight'>): SearchSide => ({
+  frontier: createFrontier(run.strategy, run.weight),
+  open: new Map(),
+  closed: new Map(),
+});
+
+const enqueue = (run: Pick<PuzzleRun, 'queued'>, side: SearchSide, node: PuzzleNode) => {
+  side.open.set(node.key, node);
+  side.frontier.add(node);
+  run.queued.push(node);
+};
+
+const rootNode = (board: number[], heuristic: Heuristic, step = 0): PuzzleNode => ({
+  board,
+  key: boardKey(board),
+  blank: board.indexOf(0),
+  cost: 0,
+  heuristic: heuristic(board),
+  depth: 0,
+  move: null,
+  parent: null,
+  order: 0,
+  openedAt: step,
+  closedAt: null,
+  droppedAt: null,
+});
+
+const moveCostOf = (run: PuzzleRun, board: readonly number[], to: number) => (run.moveCost === 'tile' ? board[to] : 1);
+
+const childOf = (run: PuzzleRun, state: RunState, parent: PuzzleNode, move: Move, to: number): PuzzleNode => {
+  const board = slideBlank(parent.board, parent.blank, to);
+  return {
+    board,
+    key: boardKey(board),
+    blank: to,
+    cost: parent.cost + moveCostOf(run, parent.board, to),
+    heuristic: state.heuristic(board),
+    depth: parent.depth + 1,
+    move,
+    parent,
+    order: run.generated++,
+    openedAt: run.step,
+    closedAt: null,
+    droppedAt: null,
+  };
+};
+
+// Whether a board reached at `depth` for `cost` is worth queueing, given what this side has already seen
+const isImprovement = (strategy: PuzzleStrategy, side: SearchSide, key: string, depth: number, cost: number) => {
+  const open = side.open.get(key);
+  const closed = side.closed.get(key);
+  switch (strategy) {
+    case 'ucs':
+    case 'astar':
+    case 'weighted':
+      return !closed && (!open || cost < open.cost);
+    // A board first met on a deep route could hide a goal within the limit, so a shallower route reopens it
+    case 'dls':
+    case 'ids':
+      return [open, closed].every(seen => !seen || depth < seen.depth);
+    // The same for IDA*, whose limit is on cost rather than depth
+    case 'idastar':
+      return [open, closed].every(seen => !seen || cost < seen.cost);
+    default:
+      return !open && !closed;
+  }
+};
+
+// Entries replaced by a better route stay in the frontier; they are skipped here
+const takeLive = (side: SearchSide) => {
+  let node = side.frontier.take();
+  while (node && side.open.get(node.key) !== node) node = side.frontier.take();
+  return node;
+};
+
+/** Replays the backward half, from the meeting board to the goal, as forward moves. */
+const joinAt = (run: PuzzleRun, state: RunState, forward: PuzzleNode, backward: PuzzleNode) => {
+  let node = forward;
+  const { generated } = run;
+  for (let at: PuzzleNode | null = backward; at?.move; at = at.parent) {
+    const move = INVERSE_MOVES[at.move];
+    const { to } = blankMoves(run.size, node.blank).find(option => option.move === move)!;
+    node = childOf(run, state, node, move, to);
+  }
+  // The search never generated these, it only retraced them
+  run.generated = generated;
+  return node;
+};
+
+// The limit the next deepening pass runs with, or null if the run has no more passes
+const nextPassLimit = (run: PuzzleRun) => {
+  if (!run.cutoffReached) return null;
+  if (run.strategy === 'ids') return run.limit! + 1;
+  if (run.strategy === 'idastar') return run.nextLimit;
+  return null;
+};
+
+const snapshotOf = (
+  run: PuzzleRun,
+  state: RunState,
+  current: PuzzleNode | null,
+  status: SearchStatus,
+  direction: Direction | null = null,
+): PuzzleSnapshot => {
+  const sides = state.backward ? [state.forward, state.backward] : [state.forward];
+  return {
+    strategy: run.strategy,
+    current,
+    openSize: sides.reduce((sum, side) => sum + side.open.size, 0),
+    closedSize: sides.reduce((sum, side) => sum + side.closed.size, 0),
+    // Every node but the root was made from a successor that was not a duplicate
+    generated: run.generated - 1 + run.duplicates,
+    duplicates: run.duplicates,
+    limit: run.limit,
+    cutoffReached: run.cutoffReached,
+    direction,
+    step: run.step,
+    status,
+    run,
+  };
+};
+
+export const idlePuzzleSearch = (strategy: PuzzleStrategy): PuzzleSnapshot => ({
+  strategy,
+  current: null,
+  openSize: 0,
+  closedSize: 0,
+  generated: 0,
+  duplicates: 0,
+  limit: null,
+  cutoffReached: false,
+  direction: null,
+  step: 0,
+  status: 'running',
+  run: null,
+});
+
+export const initPuzzleSearch = (
+  board: number[],
+  goal: number[],
+  { strategy, moveCost = 'unit', depthLimit = 0, heuristic = manhattan(goal), weight = 2 }: PuzzleSearchOptions,
+): PuzzleSnapshot => {
+  const root = rootNode(board, heuristic);
+  const limits: Partial<Record<PuzzleStrategy, number>> = { dls: depthLimit, ids: 0, idastar: root.heuristic };
+  const run: PuzzleRun = {
+    strategy,
+    moveCost,
+    weight,
+    goal,
+    goalKey: boardKey(goal),
+    size: boardSize(board),
+    root,
+    limit: limits[strategy] ?? null,
+    nextLimit: Infinity,
+    cutoffReached: false,
+    generated: 1,
+    duplicates: 0,
+    queued: [],
+    step: 0,
+  };
+  const state: RunState = {
+    heuristic,
+    forward: createSide(run),
+    backward: strategy === 'bidirectional' ? createSide(run) : null,
+    turn: 'forward',
+  };
+  runStates.set(run, state);
+  enqueue(run, state.forward, root);
+  if (state.backward) enqueue(run, state.backward, rootNode(goal, heuristic));
+  return snapshotOf(run, state, null, 'running');
+};
+
+// An idle snapshot has nothing to step, so it counts as done too
+export const isPuzzleSearchDone = (snapshot: PuzzleSnapshot) => snapshot.run === null || snapshot.status !== 'running';
+
+/**
+ * Expands one board. Throws if `snapshot` is not the newest of its run, since
+ * the shared sets have moved on, or if its run was started on another thread.
+ */
+export const stepPuzzleSearch = (snapshot: PuzzleSnapshot): PuzzleSnapshot => {
+  const { run } = snapshot;
+  if (!run || snapshot.status !== 'running') return snapshot;
+  if (snapshot.step !== run.step) throw new Error('Only the newest snapshot of a puzzle search can be stepped.');
+  const state = runStates.get(run);
+  if (!state) throw new Error('A puzzle search can only be stepped on the thread that started it.');
+
+  // Bidirectional search takes turns between its two ends
+  const direction = state.turn;
+  let side = direction === 'forward' ? state.forward : state.backward!;
+  const other = state.backward && (direction === 'forward' ? state.backward : state.forward);
+  if (state.backward) state.turn = direction === 'forward' ? 'backward' : 'forward';
+
+  let current = takeLive(side);
+  // A deepening pass that ran dry after cutting something off starts over with a larger limit
+  const nextLimit = nextPassLimit(run);
+  if (!current && nextLimit !== null) {
+    run.step++;
+    side.closed.forEach(node => (node.droppedAt = run.step));
+    run.limit = nextLimit;
+    run.nextLimit = Infinity;
+    run.cutoffReached = false;
+    state.forward = side = createSide(run);
+    enqueue(run, side, rootNode(run.root.board, state.heuristic, run.step));
+    current = takeLive(side)!;
+  } else if (current) run.step++;
+  if (!current) return snapshotOf(run, state, snapshot.current, 'exhausted');
+
+  side.open.delete(current.key);
+  side.closed.set(current.key, current);
+  current.closedAt = run.step;
+  if (!other && current.key === run.goalKey) return snapshotOf(run, state, current, 'found');
+
+  for (const { move, to } of blankMoves(run.size, current.blank)) {
+    const key = boardKey(slideBlank(current.board, current.blank, to));
+    const cost = current.cost + moveCostOf(run, current.board, to);
+    if (!isImprovement(run.strategy, side, key, current.depth + 1, cost)) {
+      run.duplicates++;
+      continue;
+    }
+    if ((run.strategy === 'dls' || run.strategy === 'ids') && current.depth >= run.limit!) {
+      run.cutoffReached = true;
+      continue;
+    }
+
+    const child = childOf(run, state, current, move, to);
+    if (run.strategy === 'idastar' && child.cost + child.heuristic > run.limit!) {
+      run.cutoffReached = true;
+      run.nextLimit = Math.min(run.nextLimit, child.cost + child.heuristic);
+      continue;
+    }
+    const met = other && (other.open.get(key) ?? other.closed.get(key));
+    if (met) {
+      const solution = direction === 'forward' ? joinAt(run, state, child, met) : joinAt(run, state, met, child);
+      return snapshotOf(run, state, solution, 'found', direction);
+    }
+    // Whatever route to this board the child improves on leaves the lists now
+    const replaced = side.open.get(key) ?? side.closed.get(key);
+    if (replaced) {
+      replaced.droppedAt = run.step;
+      side.closed.delete(key);
+    }
+    enqueue(run, side, child);
+  }
+
+  // An empty pass that cut something off is not the end; the next step starts a new one
+  const stuck = side.open.size === 0 && nextPassLimit(run) === null;
+  return snapshotOf(run, state, current, stuck ? 'exhausted' : 'running', other ? direction : null);
+};
+
+/**
+ * The open and closed lists as they stood after `snapshot`'s step, rebuilt
+ * from the steps each node joined and left them. Open is in generation
+ * order, closed in expansion order.
+ */
+export const listsAt = (snapshot: PuzzleSnapshot): PuzzleLists => {
+  const lists: PuzzleLists = { open: [], closed: [] };
+  if (!snapshot.run) return lists;
+  const { step } = snapshot;
+  for (const node of snapshot.run.queued) {
+    if (node.openedAt > step || (node.droppedAt !== null && node.droppedAt <= step)) continue;
+    if (node.closedAt !== null && node.closedAt <= step) lists.closed.push(node);
+    else lists.open.push(node);
+  }
+  lists.closed.sort((a, b) => a.closedAt! - b.closedAt!);
+  return lists;
+};
+
+/** The priority a node is ordered by: g + h, with h weighted for Weighted A*. */
+export const fCost = (run: PuzzleRun, node: PuzzleNode) =>
+  node.cost + (run.strategy === 'weighted' ? run.weight : 1) * node.heuristic;
+
+// Follows parent pointers, so nodes never carry a copy of their whole path
+export const movesTo = (node: PuzzleNode): Move[] => {
+  const moves: Move[] = [];
+  for (let at: PuzzleNode | null = node; at?.move; at = at.parent) moves.push(at.move);
+  return moves.reverse();
+};
@@ -0,0 +1,119 @@
+import type { SearchStatus, Successor } from './engine';
+
+export interface BidirectionalProblem {
+  start: string;
+  goal: string;
+  expand: (id: string) => Successor[];
+  /** Nodes with an edge into `id`; the same as `expand` when the graph is undirected. */
+  expandBackward: (id: string) => Successor[];
+}
+
+export type Direction = 'forward' | 'backward';
+
+export interface SearchSide {
+  frontier: readonly string[];
+  visited: ReadonlySet<string>;
+  /** Every node this side has reached, with the path back to its root. */
+  paths: ReadonlyMap<string, string[]>;
+}
+
+/**
+ * Two breadth-first searches, one from the start and one from the goal, that
+ * take turns expanding a node until one generates a node the other has
+ * already reached.
+ */
+export interface BidirectionalSnapshot {
+  forward: SearchSide;
+  backward: SearchSide;
+  turn: Direction;
+  current: { id: string; direction: Direction } | null;
+  meeting: string | null;
+  path: string[];
+  /** Successors produced by both sides so far, and how many of those a side had already reached. */
+  generated: number;
+  duplicates: number;
+  step: number;
+  status: SearchStatus;
+}
+
+const initSide = (root: string): SearchSide => ({
+  frontier: [root],
+  visited: new Set(),
+  paths: new Map([[root, [root]]]),
+});
+
+// Forward path to the meeting node, then the backward path walked in reverse
+const joinPaths = (forward: SearchSide, backward: SearchSide, meeting: string) => [
+  ...forward.paths.get(meeting)!,
+  ...backward.paths.get(meeting)!.slice(0, -1).reverse(),
+];
+
+export const initBidirectional = ({ start, goal }: BidirectionalProblem): BidirectionalSnapshot => {
+  const forward = initSide(start);
+  const backward = initSide(goal);
+  const meeting = start === goal ? start : null;
+  return {
+    forward,
+    backward,
+    turn: 'forward',
+    current: null,
+    meeting,
+    path: meeting ? [start] : [],
+    generated: 0,
+    duplicates: 0,
+    step: 0,
+    status: meeting ? 'found' : 'running',
+  };
+};
+
+export const stepBidirectional = (
+  problem: BidirectionalProblem,
+  snapshot: BidirectionalSnapshot,
+): BidirectionalSnapshot => {
+  if (snapshot.status !== 'running') return snapshot;
+
+  // A side that runs dry has explored its whole component without meeting the other
+  const direction = snapshot.turn;
+  const side = snapshot[direction];
+  const other = direction === 'forward' ? snapshot.backward : snapshot.forward;
+  if (side.frontier.length === 0) return { ...snapshot, status: 'exhausted' };
+
+  const [id, ...frontier] = side.frontier;
+  const visited = new Set(side.visited).add(id);
+  const paths = new Map(side.paths);
+  let meeting: string | null = null;
+  let generated = snapshot.generated;
+  let duplicates = snapshot.duplicates;
+
+  const successors = direction === 'forward' ? problem.expand(id) : problem.expandBackward(id);
+  for (const successor of successors) {
+    generated++;
+    if (paths.has(successor.id)) {
+      duplicates++;
+      continue;
+    }
+    paths.set(successor.id, [...paths.get(id)!, successor.id]);
+    frontier.push(successor.id);
+    if (other.paths.has(successor.id)) {
+      meeting = successor.id;
+      break;
+    }
+  }
+
+  const next: SearchSide = { frontier, visited, paths };
+  const forward = direction === 'forward' ? next : other;
+  const backward = direction === 'forward' ? other : next;
+
+  return {
+    forward,
+    backward,
+    turn: direction === 'forward' ? 'backward' : 'forward',
+    current: { id, direction },
+    meeting,
+    path: meeting ? joinPaths(forward, backward, meeting) : [],
+    generated,
+    duplicates,
+    step: snapshot.step + 1,
+    status: meeting ? 'found' : frontier.length === 0 ? 'exhausted' : 'running',
+  };
+};
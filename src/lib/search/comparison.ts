@@ -0,0 +1,111 @@
+import {
+  initSearch,
+  isFinished,
+  priorityFrontier,
+  queueFrontier,
+  stackFrontier,
+  stepSearch,
+  type SearchOptions,
+  type SearchProblem,
+  type SearchSnapshot,
+} from './engine';
+import { graphProblem, weightedGraphProblem, type Endpoints } from './graph';
+import { findNode, type GraphNode } from '@/lib/graph/model';
+
+export type ComparedAlgorithm = 'bfs' | 'dfs' | 'dls' | 'ucs';
+
+export const COMPARED_ALGORITHMS: { id: ComparedAlgorithm; label: string }[] = [
+  { id: 'bfs', label: 'BFS' },
+  { id: 'dfs', label: 'DFS' },
+  { id: 'dls', label: 'DLS' },
+  { id: 'ucs', label: 'UCS' },
+];
+
+export const MIN_COMPARED = 2;
+export const MAX_COMPARED = 4;
+
+/** One algorithm's problem and frontier discipline, set up exactly like its own visualizer. */
+export interface ComparisonSetup {
+  algorithm: ComparedAlgorithm;
+  problem: SearchProblem;
+  options: SearchOptions;
+}
+
+export interface ComparisonRun {
+  algorithm: ComparedAlgorithm;
+  snapshot: SearchSnapshot;
+  maxFrontier: number;
+}
+
+export interface ComparisonSnapshot {
+  runs: ComparisonRun[];
+  step: number;
+}
+
+export interface RunSummary {
+  nodesExpanded: number;
+  maxFrontier: number;
+  path: string[] | null;
+  pathLength: number | null;
+  pathCost: number | null;
+}
+
+export const comparisonSetups = (
+  graph: GraphNode[],
+  endpoints: Endpoints,
+  algorithms: ComparedAlgorithm[],
+  depthLimit: number,
+): ComparisonSetup[] =>
+  algorithms.map(algorithm => {
+    switch (algorithm) {
+      case 'bfs':
+        return { algorithm, problem: graphProblem(graph, endpoints), options: { frontier: queueFrontier } };
+      case 'dfs':
+        return { algorithm, problem: graphProblem(graph, endpoints), options: { frontier: stackFrontier } };
+      case 'dls':
+        return { algorithm, problem: graphProblem(graph, endpoints), options: { frontier: stackFrontier, depthLimit } };
+      case 'ucs':
+        return { algorithm, problem: weightedGraphProblem(graph, endpoints), options: { frontier: priorityFrontier } };
+    }
+  });
+
+export const initComparison = (setups: ComparisonSetup[]): ComparisonSnapshot => ({
+  runs: setups.map(({ algorithm, problem }) => ({ algorithm, snapshot: initSearch(problem), maxFrontier: 1 })),
+  step: 0,
+});
+
+export const isComparisonDone = (snapshot: ComparisonSnapshot) =>
+  snapshot.runs.every(run => isFinished(run.snapshot));
+
+/**
+ * Advances every unfinished run by one expansion, so step n of the comparison
+ * shows each algorithm after its n-th expansion (or where it stopped).
+ */
+export const stepComparison = (setups: ComparisonSetup[], snapshot: ComparisonSnapshot): ComparisonSnapshot => ({
+  runs: snapshot.runs.map((run, index) => {
+    if (isFinished(run.snapshot)) return run;
+    const { problem, options } = setups[index];
+    const next = stepSearch(problem, run.snapshot, options);
+    return { ...run, snapshot: next, maxFrontier: Math.max(run.maxFrontier, next.frontier.length) };
+  }),
+  step: snapshot.step + 1,
+});
+
+// Priced with the graph's edge costs even for the unweighted searches, so the costs are comparable
+export const pathCost = (graph: GraphNode[], path: string[]) =>
+  path.slice(1).reduce((total, id, index) => {
+    const edge = findNode(graph, path[index])?.neighbors.find(neighbor => neighbor.id === id);
+    return total + (edge?.cost ?? 0);
+  }, 0);
+
+export const summarizeRun = (graph: GraphNode[], run: ComparisonRun): RunSummary => {
+  const { snapshot } = run;
+  const path = snapshot.status === 'found' && snapshot.current ? snapshot.current.path : null;
+  return {
+    nodesExpanded: snapshot.step,
+    maxFrontier: run.maxFrontier,
+    path,
+    pathLength: path ? path.length - 1 : null,
+    pathCost: path ? pathCost(graph, path) : null,
+  };
+};
@@ -0,0 +1,84 @@
+import {
+  expandedAt,
+  initSearch,
+  isFinished,
+  pathStackFrontier,
+  stepSearch,
+  type SearchProblem,
+  type SearchSnapshot,
+} from './engine';
+
+export type PassResult = 'found' | 'cutoff' | 'failure';
+
+export interface DeepeningPass {
+  limit: number;
+  expanded: readonly string[];
+  generated: number;
+  duplicates: number;
+  result: PassResult;
+}
+
+/**
+ * Iterative deepening runs depth-limited passes with limit 0, 1, 2, ... A pass
+ * that hit its limit reports 'cutoff' and triggers a deeper pass; a pass that
+ * ran out of nodes without hitting the limit proves there is no goal at all.
+ */
+export interface DeepeningSnapshot {
+  limit: number;
+  pass: SearchSnapshot;
+  passes: readonly DeepeningPass[];
+  status: 'running' | PassResult;
+}
+
+export const initDeepening = (problem: SearchProblem): DeepeningSnapshot => ({
+  limit: 0,
+  pass: initSearch(problem),
+  passes: [],
+  status: 'running',
+});
+
+export const passResult = (pass: SearchSnapshot): PassResult | null => {
+  if (pass.status === 'found') return 'found';
+  if (pass.status === 'exhausted') return pass.cutoffReached ? 'cutoff' : 'failure';
+  return null;
+};
+
+export const totalExpanded = (snapshot: DeepeningSnapshot) =>
+  snapshot.passes.reduce((sum, pass) => sum + pass.expanded.length, 0) + snapshot.pass.step;
+
+export const stepDeepening = (problem: SearchProblem, snapshot: DeepeningSnapshot): DeepeningSnapshot => {
+  if (snapshot.status !== 'running') return snapshot;
+
+  // A finished cutoff pass is left on screen for one step before the restart
+  if (isFinished(snapshot.pass)) {
+    const limit = snapshot.limit + 1;
+    return {
+      limit,
+      pass: initSearch(problem),
+      passes: [
+        ...snapshot.passes,
+        {
+          limit: snapshot.limit,
+          expanded: expandedAt(snapshot.pass),
+          generated: snapshot.pass.generated,
+          duplicates: snapshot.pass.duplicates,
+          result: 'cutoff',
+        },
+      ],
+      status: 'running',
+    };
+  }
+
+  const pass = stepSearch(problem, snapshot.pass, {
+    frontier: pathStackFrontier,
+    depthLimit: snapshot.limit,
+    cycleCheck: 'path',
+  });
+  const result = passResult(pass);
+
+  return {
+    ...snapshot,
+    pass,
+    status: result === 'found' || result === 'failure' ? result : 'running',
+  };
+};
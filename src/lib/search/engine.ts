@@ -0,0 +1,294 @@
+/**
+ * UI-independent search core shared by the graph visualizers.
+ *
+ * A run is a sequence of snapshots: `initSearch` builds the first one and
+ * `stepSearch` derives the next by expanding a single frontier node. The
+ * frontier discipline (queue, stack, priority queue) is the only thing that
+ * differs between BFS, DFS, DLS and UCS.
+ *
+ * Everything that grows with the run (the search tree, what was expanded and
+ * the costs nodes were queued at) lives in a `SearchRun` that all of its
+ * snapshots share. The run only ever appends, noting the step each change
+ * happened at, so a snapshot reads it as it stood at its own step. Only the
+ * newest snapshot of a run can be stepped.
+ */
+
+export interface Successor {
+  id: string;
+  cost: number;
+}
+
+export interface SearchProblem {
+  start: string;
+  isGoal: (id: string) => boolean;
+  expand: (id: string) => Successor[];
+}
+
+export interface SearchNode {
+  /** Identifies this node in the search tree; the same graph node can appear many times. */
+  key: number;
+  id: string;
+  depth: number;
+  cost: number;
+  path: string[];
+}
+
+export type SearchStatus = 'running' | 'found' | 'exhausted';
+
+export type TreeNodeStatus = 'frontier' | 'expanded' | 'goal' | 'cutoff' | 'pruned';
+
+export interface TreeNode {
+  key: number;
+  id: string;
+  parent: number | null;
+  depth: number;
+  cost: number;
+  status: TreeNodeStatus;
+}
+
+/** A tree node as the run keeps it: generated with one status, and settled into another at most once. */
+export interface TreeEntry extends Omit<TreeNode, 'status'> {
+  generatedAt: number;
+  initial: 'frontier' | 'pruned';
+  settled: TreeNodeStatus | null;
+  settledAt: number | null;
+}
+
+/** The cost and parent a graph node was queued with, from the step it was queued at. */
+interface Reached {
+  step: number;
+  cost: number;
+  parent: string | null;
+}
+
+export interface SearchRun {
+  /** Every generated node, including duplicates that were pruned instead of queued. */
+  tree: TreeEntry[];
+  /** Graph nodes in the order they were expanded, repeats included; step k has expanded the first k. */
+  expanded: string[];
+  /** Graph nodes in the order they were first expanded. */
+  visited: string[];
+  firstExpanded: Map<string, number>;
+  reached: Map<string, Reached[]>;
+  step: number;
+}
+
+export interface SearchSnapshot {
+  frontier: readonly SearchNode[];
+  current: SearchNode | null;
+  /** Nodes generated after the start, including duplicates. */
+  generated: number;
+  /** Generated nodes that were pruned instead of queued, or later pushed out of the frontier. */
+  duplicates: number;
+  /** How many distinct graph nodes have been expanded. */
+  visitedCount: number;
+  run: SearchRun;
+  cutoffReached: boolean;
+  step: number;
+  status: SearchStatus;
+}
+
+export interface Frontier {
+  /** Removes the next node to expand, returning it with the remaining frontier. */
+  take: (nodes: readonly SearchNode[]) => [SearchNode, SearchNode[]];
+  /** Adds freshly generated children, dropping or replacing duplicates. */
+  add: (nodes: readonly SearchNode[], children: readonly SearchNode[]) => SearchNode[];
+}
+
+export interface SearchOptions {
+  frontier: Frontier;
+  depthLimit?: number;
+  /**
+   * 'explored' (the default) never regenerates an expanded node. 'path' only
+   * rejects nodes already on the current path, the tree-search variant that
+   * iterative deepening relies on.
+   */
+  cycleCheck?: 'explored' | 'path';
+}
+
+const withoutQueued = (nodes: readonly SearchNode[], children: readonly SearchNode[]) =>
+  children.filter(child => !nodes.some(node => node.id === child.id));
+
+export const queueFrontier: Frontier = {
+  take: nodes => [nodes[0], nodes.slice(1)],
+  add: (nodes, children) => [...nodes, ...withoutQueued(nodes, children)],
+};
+
+// Children are pushed in reverse so the first neighbor ends up on top
+export const stackFrontier: Frontier = {
+  take: nodes => [nodes[nodes.length - 1], nodes.slice(0, -1)],
+  add: (nodes, children) => [...nodes, ...withoutQueued(nodes, children).reverse()],
+};
+
+// Tree-search stack: the same node may sit on the stack via different paths
+export const pathStackFrontier: Frontier = {
+  take: stackFrontier.take,
+  add: (nodes, children) => [...nodes, ...[...children].reverse()],
+};
+
+export const priorityFrontier: Frontier = {
+  take: nodes => {
+    const sorted = [...nodes].sort((a, b) => a.cost - b.cost);
+    return [sorted[0], sorted.slice(1)];
+  },
+  add: (nodes, children) =>
+    children.reduce<SearchNode[]>((acc, child) => {
+      const existing = acc.find(node => node.id === child.id);
+      if (existing && existing.cost <= child.cost) return acc;
+      return [...acc.filter(node => node.id !== child.id), child];
+    }, [...nodes]),
+};
+
+export const initSearch = (problem: SearchProblem): SearchSnapshot => ({
+  frontier: [{ key: 0, id: problem.start, depth: 0, cost: 0, path: [problem.start] }],
+  current: null,
+  generated: 0,
+  duplicates: 0,
+  visitedCount: 0,
+  run: {
+    tree: [
+      { key: 0, id: problem.start, parent: null, depth: 0, cost: 0, generatedAt: 0, initial: 'frontier', settled: null, settledAt: null },
+    ],
+    expanded: [],
+    visited: [],
+    firstExpanded: new Map(),
+    reached: new Map([[problem.start, [{ step: 0, cost: 0, parent: null }]]]),
+    step: 0,
+  },
+  cutoffReached: false,
+  step: 0,
+  status: 'running',
+});
+
+export const isFinished = (snapshot: SearchSnapshot) => snapshot.status !== 'running';
+
+/** Graph nodes in the order they were expanded up to `snapshot`, repeats included. */
+export const expandedAt = (snapshot: SearchSnapshot) => snapshot.run.expanded.slice(0, snapshot.step);
+
+/** Distinct graph nodes expanded up to `snapshot`, in the order they were first expanded. */
+export const visitedAt = (snapshot: SearchSnapshot) => snapshot.run.visited.slice(0, snapshot.visitedCount);
+
+export const isVisited = (snapshot: SearchSnapshot, id: string) =>
+  (snapshot.run.firstExpanded.get(id) ?? Infinity) <= snapshot.step;
+
+const reachedAt = (snapshot: SearchSnapshot, id: string) => {
+  const entries = snapshot.run.reached.get(id) ?? [];
+  for (let index = entries.length - 1; index >= 0; index--) {
+    if (entries[index].step <= snapshot.step) return entries[index];
+  }
+  return undefined;
+};
+
+/** The cost the node was last queued at, if it has been queued by `snapshot`. */
+export const costAt = (snapshot: SearchSnapshot, id: string) => reachedAt(snapshot, id)?.cost;
+
+/** The search tree as it stood at `snapshot`, rebuilt from the steps each node was generated and settled at. */
+export const treeAt = (snapshot: SearchSnapshot): TreeNode[] => {
+  const tree: TreeNode[] = [];
+  for (const { generatedAt, initial, settled, settledAt, ...node } of snapshot.run.tree) {
+    if (generatedAt > snapshot.step) break;
+    tree.push({ ...node, status: settledAt !== null && settledAt <= snapshot.step ? settled! : initial });
+  }
+  return tree;
+};
+
+// Follows parent pointers back to the start; empty if the node was never reached
+export const pathTo = (snapshot: SearchSnapshot, id: string): string[] => {
+  if (!reachedAt(snapshot, id)) return [];
+  const path: string[] = [];
+  for (let node: string | null | undefined = id; node != null && !path.includes(node); node = reachedAt(snapshot, node)?.parent) {
+    path.unshift(node);
+  }
+  return path;
+};
+
+export const stepSearch = (
+  problem: SearchProblem,
+  snapshot: SearchSnapshot,
+  options: SearchOptions,
+): SearchSnapshot => {
+  if (isFinished(snapshot)) return snapshot;
+  if (snapshot.frontier.length === 0) return { ...snapshot, status: 'exhausted' };
+  const { run } = snapshot;
+  if (snapshot.step !== run.step) throw new Error('Only the newest snapshot of a search can be stepped.');
+
+  const [current, rest] = options.frontier.take(snapshot.frontier);
+  const step = ++run.step;
+  run.expanded.push(current.id);
+  const isFirstVisit = !run.firstExpanded.has(current.id);
+  if (isFirstVisit) {
+    run.firstExpanded.set(current.id, step);
+    run.visited.push(current.id);
+  }
+  const settle = (key: number, status: TreeNodeStatus) => Object.assign(run.tree[key], { settled: status, settledAt: step });
+  const base = {
+    current,
+    visitedCount: snapshot.visitedCount + (isFirstVisit ? 1 : 0),
+    step,
+  };
+
+  if (problem.isGoal(current.id)) {
+    settle(current.key, 'goal');
+    return { ...snapshot, ...base, frontier: rest, status: 'found' };
+  }
+
+  const successors = problem.expand(current.id);
+  const unvisited = successors.filter(successor =>
+    options.cycleCheck === 'path' ? !current.path.includes(successor.id) : !run.firstExpanded.has(successor.id),
+  );
+
+  // Depth-limited search stops expanding at the limit and remembers it did so
+  if (options.depthLimit !== undefined && current.depth >= options.depthLimit) {
+    settle(current.key, unvisited.length > 0 ? 'cutoff' : 'expanded');
+    return {
+      ...snapshot,
+      ...base,
+      frontier: rest,
+      cutoffReached: snapshot.cutoffReached || unvisited.length > 0,
+      status: rest.length === 0 ? 'exhausted' : 'running',
+    };
+  }
+
+  const generated = successors.map((successor, index) => ({
+    key: run.tree.length + index,
+    id: successor.id,
+    depth: current.depth + 1,
+    cost: current.cost + successor.cost,
+    path: [...current.path, successor.id],
+  }));
+  const children = generated.filter(child => unvisited.some(successor => successor.id === child.id));
+  const frontier = options.frontier.add(rest, children);
+
+  // Anything generated but not queued, or pushed out of the frontier by a cheaper entry, was pruned
+  const queued = new Set(frontier.map(node => node.key));
+  settle(current.key, 'expanded');
+  const displaced = rest.filter(node => !queued.has(node.key));
+  displaced.forEach(node => settle(node.key, 'pruned'));
+  generated.forEach(child => {
+    const isQueued = queued.has(child.key);
+    run.tree.push({
+      key: child.key,
+      id: child.id,
+      parent: current.key,
+      depth: child.depth,
+      cost: child.cost,
+      generatedAt: step,
+      initial: isQueued ? 'frontier' : 'pruned',
+      settled: null,
+      settledAt: null,
+    });
+    if (!isQueued) return;
+    const reached = run.reached.get(child.id) ?? [];
+    reached.push({ step, cost: child.cost, parent: current.id });
+    run.reached.set(child.id, reached);
+  });
+
+  return {
+    ...snapshot,
+    ...base,
+    frontier,
+    generated: snapshot.generated + generated.length,
+    duplicates: snapshot.duplicates + displaced.length + generated.filter(child => !queued.has(child.key)).length,
+    status: frontier.length === 0 ? 'exhausted' : 'running',
+  };
+};
@@ -0,0 +1,55 @@
+import type { SearchProblem } from './engine';
+import type { BidirectionalProblem } from './bidirectional';
+import { findNode, type GraphNode } from '@/lib/graph/model';
+
+/** Where a search starts and what ends it. No goals means traverse everything reachable. */
+export interface Endpoints {
+  start: string;
+  goals: string[];
+}
+
+export const DEFAULT_ENDPOINTS: Endpoints = { start: 'A', goals: ['G'] };
+
+// Drops references to nodes that no longer exist, e.g. after an edit
+export const reconcileEndpoints = (graph: GraphNode[], endpoints: Endpoints): Endpoints => ({
+  start: findNode(graph, endpoints.start) ? endpoints.start : graph[0]?.id ?? '',
+  goals: endpoints.goals.filter(goal => findNode(graph, goal)),
+});
+
+export const toggleGoal = (endpoints: Endpoints, nodeId: string): Endpoints => ({
+  ...endpoints,
+  goals: endpoints.goals.includes(nodeId)
+    ? endpoints.goals.filter(goal => goal !== nodeId)
+    : [...endpoints.goals, nodeId],
+});
+
+// Unweighted searches treat every edge as cost 1 so depth and path cost coincide
+export const graphProblem = (graph: GraphNode[], { start, goals }: Endpoints): SearchProblem => ({
+  start,
+  isGoal: id => goals.includes(id),
+  expand: id => findNode(graph, id)?.neighbors.map(neighbor => ({ id: neighbor.id, cost: 1 })) ?? [],
+});
+
+export const weightedGraphProblem = (graph: GraphNode[], { start, goals }: Endpoints): SearchProblem => ({
+  start,
+  isGoal: id => goals.includes(id),
+  expand: id => findNode(graph, id)?.neighbors ?? [],
+});
+
+// Bidirectional search meets in the middle, so it needs exactly one goal
+export const bidirectionalProblem = (
+  graph: GraphNode[],
+  { start, goals }: Endpoints,
+  directed = false,
+): BidirectionalProblem => {
+  const expand = (id: string) => findNode(graph, id)?.neighbors.map(neighbor => ({ id: neighbor.id, cost: 1 })) ?? [];
+  return {
+    start,
+    goal: goals[0] ?? '',
+    expand,
+    // In a directed graph the backward search has to walk edges against their direction
+    expandBackward: directed
+      ? id => graph.filter(node => node.neighbors.some(neighbor => neighbor.id === id)).map(node => ({ id: node.id, cost: 1 }))
+      : expand,
+  };
+};
@@ -0,0 +1,52 @@
+export interface MinHeap<T> {
+  push: (item: T) => void;
+  /** Removes and returns the smallest item, or undefined when the heap is empty. */
+  pop: () => T | undefined;
+  size: () => number;
+}
+
+/**
+ * Binary min-heap ordered by `compare`. Both operations are O(log n), so a
+ * best-first frontier stays cheap however many nodes it holds.
+ */
+export const createHeap = <T,>(compare: (a: T, b: T) => number): MinHeap<T> => {
+  const items: T[] = [];
+
+  const swap = (i: number, j: number) => {
+    [items[i], items[j]] = [items[j], items[i]];
+  };
+
+  const push = (item: T) => {
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (compare(items[i], items[parent]) >= 0) break;
+      swap(i, parent);
+      i = parent;
+    }
+  };
+
+  const pop = () => {
+    if (items.length === 0) return undefined;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && compare(items[left], items[smallest]) < 0) smallest = left;
+        if (right < items.length && compare(items[right], items[smallest]) < 0) smallest = right;
+        if (smallest === i) break;
+        swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  };
+
+  return { push, pop, size: () => items.length };
+};
@@ -0,0 +1,151 @@
+import { initSearch, isFinished, stepSearch, type SearchSnapshot } from './engine';
+import { comparisonSetups, type ComparedAlgorithm } from './comparison';
+import type { Endpoints } from './graph';
+import type { GraphNode } from '@/lib/graph/model';
+import { createHeuristic, type HeuristicId } from '@/lib/puzzle/heuristics';
+import {
+  MAX_PUZZLE_STEPS,
+  initPuzzleSearch,
+  isPuzzleSearchDone,
+  stepPuzzleSearch,
+  type PuzzleSearchOptions,
+  type PuzzleSnapshot,
+} from '@/lib/puzzle/search';
+
+/**
+ * Whole runs described as plain data, so they can be posted to a worker and
+ * run to the end there. The worker records every snapshot, exactly as the
+ * visualizer would have one step at a time, and posts the trace back.
+ */
+
+/** Puzzle options with the heuristic named rather than built, since functions cannot be posted. */
+export type PuzzleJobOptions = Omit<PuzzleSearchOptions, 'heuristic'> & { heuristic: HeuristicId; expression?: string };
+
+/** A heuristic to compare, or 'none' for the h = 0 baseline. */
+export interface ComparedHeuristic {
+  heuristic: HeuristicId | 'none';
+  expression?: string;
+}
+
+export type SearchJob =
+  | { kind: 'graph'; algorithm: ComparedAlgorithm; graph: GraphNode[]; endpoints: Endpoints; depthLimit?: number; maxLength: number }
+  | { kind: 'puzzle'; board: number[]; goal: number[]; options: PuzzleJobOptions; maxLength: number }
+  | {
+      kind: 'heuristics';
+      board: number[];
+      goal: number[];
+      options: Omit<PuzzleSearchOptions, 'heuristic'>;
+      heuristics: ComparedHeuristic[];
+    };
+
+/** How one run of a heuristic comparison ended, without the nodes it searched. */
+export interface PuzzleRunSummary {
+  expanded: number;
+  /** False when the run stopped at the expansion cap. */
+  finished: boolean;
+  moves: number | null;
+  cost: number | null;
+}
+
+export interface SearchProgress {
+  expanded: number;
+  frontier: number;
+  /** Milliseconds since the run started. */
+  elapsed: number;
+}
+
+/** Every snapshot of a run, with the milliseconds spent reaching each, as the search history keeps them. */
+export interface SearchTrace<S> {
+  snapshots: S[];
+  elapsed: number[];
+}
+
+export type WorkerMessage<S> =
+  | { type: 'progress'; progress: SearchProgress }
+  | { type: 'done'; trace: SearchTrace<S> }
+  | { type: 'error'; message: string };
+
+// Often enough to look live, rarely enough that posting costs nothing next to the search
+const PROGRESS_INTERVAL = 100;
+
+const recordTrace = <S,>(
+  first: S,
+  advance: (snapshot: S) => S,
+  isDone: (snapshot: S) => boolean,
+  frontierSize: (snapshot: S) => number,
+  maxLength: number,
+  onProgress: (progress: SearchProgress) => void,
+): SearchTrace<S> => {
+  const started = performance.now();
+  let reported = started;
+  const trace = { snapshots: [first], elapsed: [0] };
+  let last = first;
+  while (!isDone(last) && trace.snapshots.length < maxLength) {
+    last = advance(last);
+    const now = performance.now();
+    trace.snapshots.push(last);
+    trace.elapsed.push(now - started);
+    if (now - reported >= PROGRESS_INTERVAL) {
+      reported = now;
+      onProgress({ expanded: trace.snapshots.length - 1, frontier: frontierSize(last), elapsed: now - started });
+    }
+  }
+  return trace;
+};
+
+// Each comparison run only keeps its final snapshot, so the trace holds one summary per heuristic
+const compareHeuristics = (
+  { board, goal, options, heuristics }: Extract<SearchJob, { kind: 'heuristics' }>,
+  onProgress: (progress: SearchProgress) => void,
+): SearchTrace<PuzzleRunSummary> => {
+  const started = performance.now();
+  let reported = started;
+  let expanded = 0;
+  const trace: SearchTrace<PuzzleRunSummary> = { snapshots: [], elapsed: [] };
+  for (const { heuristic, expression } of heuristics) {
+    let snapshot = initPuzzleSearch(board, goal, {
+      ...options,
+      heuristic: heuristic === 'none' ? () => 0 : createHeuristic(heuristic, goal, expression),
+    });
+    while (!isPuzzleSearchDone(snapshot) && snapshot.step < MAX_PUZZLE_STEPS) {
+      snapshot = stepPuzzleSearch(snapshot);
+      const now = performance.now();
+      if (now - reported >= PROGRESS_INTERVAL) {
+        reported = now;
+        onProgress({ expanded: expanded + snapshot.step, frontier: snapshot.openSize, elapsed: now - started });
+      }
+    }
+    expanded += snapshot.step;
+    const found = snapshot.status === 'found' ? snapshot.current : null;
+    trace.snapshots.push({
+      expanded: snapshot.step,
+      finished: snapshot.status !== 'running',
+      moves: found?.depth ?? null,
+      cost: found?.cost ?? null,
+    });
+    trace.elapsed.push(performance.now() - started);
+  }
+  return trace;
+};
+
+/** Runs a job to the end, or to `maxLength` snapshots, reporting progress along the way. */
+export const runSearchJob = (
+  job: SearchJob,
+  onProgress: (progress: SearchProgress) => void,
+): SearchTrace<SearchSnapshot> | SearchTrace<PuzzleSnapshot> | SearchTrace<PuzzleRunSummary> => {
+  if (job.kind === 'heuristics') return compareHeuristics(job, onProgress);
+  if (job.kind === 'puzzle') {
+    const { heuristic, expression, ...options } = job.options;
+    const first = initPuzzleSearch(job.board, job.goal, { ...options, heuristic: createHeuristic(heuristic, job.goal, expression) });
+    return recordTrace(first, stepPuzzleSearch, isPuzzleSearchDone, snapshot => snapshot.openSize, job.maxLength, onProgress);
+  }
+  const [{ problem, options }] = comparisonSetups(job.graph, job.endpoints, [job.algorithm], job.depthLimit ?? 0);
+  return recordTrace(
+    initSearch(problem),
+    snapshot => stepSearch(problem, snapshot, options),
+    isFinished,
+    snapshot => snapshot.frontier.length,
+    job.maxLength,
+    onProgress,
+  );
+};
@@ -0,0 +1,159 @@
+import type { SearchSnapshot } from './engine';
+import type { BidirectionalSnapshot } from './bidirectional';
+import type { DeepeningSnapshot } from './deepening';
+import type { PuzzleSnapshot } from '@/lib/puzzle/search';
+
+/**
+ * Run metrics computed from a recorded timeline. Each visualizer reduces its
+ * snapshots to the same counts, so one panel can chart any of them.
+ */
+
+/** What one snapshot says about its run so far. */
+export interface StepCounts {
+  expanded: number;
+  /** Successors produced, the duplicates among them included. */
+  generated: number;
+  duplicates: number;
+  frontier: number;
+  /** Entries the run holds on to: its frontier and whatever it remembers as explored. */
+  stored: number;
+  /** Depth of the node expanded at this step. */
+  depth: number | null;
+  /** Depth of the goal once it is found. */
+  solutionDepth: number | null;
+}
+
+export interface RunMetrics {
+  expanded: number;
+  generated: number;
+  duplicates: number;
+  maxFrontier: number;
+  maxStored: number;
+  memoryBytes: number;
+  branchingFactor: number | null;
+  /** Null when the run was not timed on its own. */
+  elapsed: number | null;
+  frontierSizes: number[];
+  expansionsByDepth: number[];
+}
+
+// Rough sizes of one stored entry in a JavaScript engine, enough to compare runs by
+export const GRAPH_ENTRY_BYTES = 96;
+export const puzzleEntryBytes = (cells: number) => 160 + 12 * cells;
+
+/**
+ * The b* for which a uniform tree of depth `depth` holds `generated` + 1
+ * nodes, found by bisection. Closer to 1 means a better-focused search.
+ */
+export const effectiveBranchingFactor = (generated: number, depth: number) => {
+  if (depth <= 0 || generated <= 0) return null;
+  const nodes = (b: number) => {
+    let total = 1;
+    let level = 1;
+    for (let d = 1; d <= depth; d++) total += level *= b;
+    return total;
+  };
+  let low = 1;
+  let high = Math.max(2, generated);
+  for (let round = 0; round < 60; round++) {
+    const middle = (low + high) / 2;
+    if (nodes(middle) < generated + 1) low = middle;
+    else high = middle;
+  }
+  return (low + high) / 2;
+};
+
+export const searchCounts = (snapshot: SearchSnapshot): StepCounts => ({
+  expanded: snapshot.step,
+  generated: snapshot.generated,
+  duplicates: snapshot.duplicates,
+  frontier: snapshot.frontier.length,
+  stored: snapshot.frontier.length + snapshot.visitedCount,
+  depth: snapshot.current?.depth ?? null,
+  solutionDepth: snapshot.status === 'found' ? snapshot.current!.depth : null,
+});
+
+// Tree search remembers only the path it is on, so that is all a pass stores besides its frontier
+export const deepeningCounts = (snapshot: DeepeningSnapshot): StepCounts => {
+  const pass = searchCounts(snapshot.pass);
+  return {
+    ...pass,
+    expanded: snapshot.passes.reduce((sum, done) => sum + done.expanded.length, pass.expanded),
+    generated: snapshot.passes.reduce((sum, done) => sum + done.generated, pass.generated),
+    duplicates: snapshot.passes.reduce((sum, done) => sum + done.duplicates, pass.duplicates),
+    stored: snapshot.pass.frontier.length + (snapshot.pass.current?.path.length ?? 0),
+  };
+};
+
+export const bidirectionalCounts = (snapshot: BidirectionalSnapshot): StepCounts => {
+  const { forward, backward, current } = snapshot;
+  return {
+    expanded: forward.visited.size + backward.visited.size,
+    generated: snapshot.generated,
+    duplicates: snapshot.duplicates,
+    frontier: forward.frontier.length + backward.frontier.length,
+    stored: forward.paths.size + backward.paths.size,
+    depth: current ? snapshot[current.direction].paths.get(current.id)!.length - 1 : null,
+    solutionDepth: snapshot.status === 'found' ? snapshot.path.length - 1 : null,
+  };
+};
+
+export const puzzleCounts = (snapshot: PuzzleSnapshot): StepCounts => ({
+  expanded: snapshot.step,
+  generated: snapshot.generated,
+  duplicates: snapshot.duplicates,
+  frontier: snapshot.openSize,
+  stored: snapshot.openSize + snapshot.closedSize,
+  // When the two ends of a bidirectional run meet, `current` is the joined solution rather than what was expanded
+  depth: snapshot.status === 'found' && snapshot.direction ? null : snapshot.current?.depth ?? null,
+  solutionDepth: snapshot.status === 'found' ? snapshot.current!.depth : null,
+});
+
+/**
+ * Folds a timeline, from its first snapshot to the one on screen, into run
+ * metrics. A step only counts towards a depth if it expanded something.
+ */
+export const runMetrics = <S,>(
+  snapshots: readonly S[],
+  countsOf: (snapshot: S) => StepCounts,
+  { elapsed, entryBytes }: { elapsed: number | null; entryBytes: number },
+): RunMetrics => {
+  const frontierSizes: number[] = [];
+  const expansionsByDepth: number[] = [];
+  let maxFrontier = 0;
+  let maxStored = 0;
+  let previous: StepCounts | null = null;
+  for (const snapshot of snapshots) {
+    const counts = countsOf(snapshot);
+    frontierSizes.push(counts.frontier);
+    maxFrontier = Math.max(maxFrontier, counts.frontier);
+    maxStored = Math.max(maxStored, counts.stored);
+    if (previous && counts.expanded > previous.expanded && counts.depth !== null) {
+      while (expansionsByDepth.length <= counts.depth) expansionsByDepth.push(0);
+      expansionsByDepth[counts.depth]++;
+    }
+    previous = counts;
+  }
+  const last = previous ?? { expanded: 0, generated: 0, duplicates: 0, solutionDepth: null };
+  return {
+    expanded: last.expanded,
+    generated: last.generated,
+    duplicates: last.duplicates,
+    maxFrontier,
+    maxStored,
+    memoryBytes: maxStored * entryBytes,
+    branchingFactor: last.solutionDepth === null ? null : effectiveBranchingFactor(last.generated, last.solutionDepth),
+    elapsed,
+    frontierSizes,
+    expansionsByDepth,
+  };
+};
+
+export const formatElapsed = (elapsed: number) =>
+  elapsed < 1000 ? `${elapsed < 10 ? elapsed.toFixed(1) : Math.round(elapsed)} ms` : `${(elapsed / 1000).toFixed(1)} s`;
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+};
@@ -0,0 +1,12 @@
+import { runSearchJob, type SearchJob, type WorkerMessage } from './jobs';
+
+// One job per worker: the page starts a fresh worker for every run and cancels by terminating it
+self.onmessage = (event: MessageEvent<SearchJob>) => {
+  const post = (message: WorkerMessage<unknown>) => self.postMessage(message);
+  try {
+    const trace = runSearchJob(event.data, progress => post({ type: 'progress', progress }));
+    post({ type: 'done', trace });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
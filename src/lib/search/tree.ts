@@ -0,0 +1,40 @@
+import type { TreeNode } from './engine';
+
+export const TREE_NODE_SPACING = 44;
+export const TREE_LEVEL_HEIGHT = 64;
+const PADDING = 24;
+
+export interface TreeLayout {
+  positions: ReadonlyMap<number, { x: number; y: number }>;
+  width: number;
+  height: number;
+}
+
+/**
+ * Leaves are placed left to right in generation order and every parent is
+ * centred over its children, which is how search trees are drawn by hand.
+ */
+export const layoutTree = (nodes: readonly TreeNode[]): TreeLayout => {
+  const children = new Map<number | null, TreeNode[]>();
+  nodes.forEach(node => children.set(node.parent, [...(children.get(node.parent) ?? []), node]));
+
+  const positions = new Map<number, { x: number; y: number }>();
+  let nextLeaf = 0;
+  let maxDepth = 0;
+
+  const place = (node: TreeNode): number => {
+    const xs = (children.get(node.key) ?? []).map(place);
+    const x = xs.length === 0 ? PADDING + nextLeaf++ * TREE_NODE_SPACING : (xs[0] + xs[xs.length - 1]) / 2;
+    positions.set(node.key, { x, y: PADDING + node.depth * TREE_LEVEL_HEIGHT });
+    maxDepth = Math.max(maxDepth, node.depth);
+    return x;
+  };
+
+  (children.get(null) ?? []).forEach(place);
+
+  return {
+    positions,
+    width: Math.max(1, nextLeaf) * TREE_NODE_SPACING + PADDING,
+    height: maxDepth * TREE_LEVEL_HEIGHT + PADDING * 2 + 16,
+  };
+};
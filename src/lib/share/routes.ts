@@ -0,0 +1,20 @@
+export type GraphRouteId = 'bfs' | 'dfs' | 'dls' | 'ucs' | 'bidirectional' | 'compare';
+export type RouteId = GraphRouteId | 'grid' | '8-puzzle';
+
+export interface AlgorithmRoute {
+  id: RouteId;
+  path: string;
+  title: string;
+  description: string;
+}
+
+export const ALGORITHM_ROUTES: AlgorithmRoute[] = [
+  { id: 'bfs', path: '/bfs', title: 'Breadth-First Search', description: 'Explores the graph level by level with a FIFO queue.' },
+  { id: 'dfs', path: '/dfs', title: 'Depth-First Search', description: 'Follows one branch as deep as possible with a LIFO stack.' },
+  { id: 'dls', path: '/dls', title: 'Depth-Limited Search', description: 'Depth-first search that stops at a fixed depth, or deepens it iteratively.' },
+  { id: 'ucs', path: '/ucs', title: 'Uniform Cost Search', description: 'Expands the cheapest path first using edge costs.' },
+  { id: 'bidirectional', path: '/bidirectional', title: 'Bidirectional Search', description: 'Searches forward from the start and backward from the goal until they meet.' },
+  { id: 'compare', path: '/compare', title: 'Compare Algorithms', description: 'Run two to four uninformed searches side by side on the same graph.' },
+  { id: 'grid', path: '/grid', title: 'Grid Pathfinding', description: 'Paint walls and terrain on a grid or generate a maze, then watch BFS, DFS, DLS or UCS find a way through.' },
+  { id: '8-puzzle', path: '/8-puzzle', title: 'Sliding Puzzle', description: 'Solve the 8-, 15- or 24-puzzle with uninformed searches, from BFS to bidirectional, or heuristic ones such as A* and IDA*.' },
+];
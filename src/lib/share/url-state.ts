@@ -0,0 +1,341 @@
+import { GraphFormatError, parseGraph, serializeGraph, validateGraph } from '@/lib/graph/formats';
+import { DEFAULT_GRAPH, type GraphNode } from '@/lib/graph/model';
+import { DEFAULT_ENDPOINTS, type Endpoints } from '@/lib/search/graph';
+import { INITIAL_BOARD, PUZZLE_SIZES, boardSize, goalBoard, unsolvableReason } from '@/lib/puzzle/board';
+import { ExpressionError, HEURISTICS, parseExpression, type HeuristicId } from '@/lib/puzzle/heuristics';
+import {
+  MAX_DEPTH_LIMIT,
+  MAX_WEIGHT,
+  MIN_WEIGHT,
+  PUZZLE_STRATEGIES,
+  type MoveCost,
+  type PuzzleStrategy,
+} from '@/lib/puzzle/search';
+import { COMPARED_ALGORITHMS, MAX_COMPARED, MIN_COMPARED, type ComparedAlgorithm } from '@/lib/search/comparison';
+import {
+  DEFAULT_WORLD,
+  MAX_GRID_SIZE,
+  MIN_GRID_SIZE,
+  cellId,
+  cellIndex,
+  decodeCells,
+  encodeCells,
+  type GridWorld,
+} from '@/lib/grid/world';
+
+/**
+ * Encodes what a visualizer is showing into query parameters, so a link
+ * reproduces the same graph, endpoints, settings and step. Anything left at
+ * its default is omitted to keep links short.
+ */
+
+/** What a graph visualizer needs to restore a view; settings it does not have are left out. */
+export interface GraphView {
+  graph: GraphNode[];
+  endpoints: Endpoints;
+  step: number;
+  directed?: boolean;
+  depthLimit?: number;
+  iterative?: boolean;
+  algorithms?: ComparedAlgorithm[];
+}
+
+export interface GridView {
+  world: GridWorld;
+  algorithm: ComparedAlgorithm;
+  /** Only set for depth-limited search. */
+  depthLimit?: number;
+  step: number;
+}
+
+/** `step` is null while the board is still being set up and no search has started. */
+export interface PuzzleView {
+  board: number[];
+  /** Defaults to the standard goal for the board's size. */
+  goal?: number[];
+  strategy: PuzzleStrategy;
+  /** Defaults to every move costing 1. */
+  moveCost?: MoveCost;
+  /** Only set for depth-limited search. */
+  depthLimit?: number;
+  /** Defaults to the Manhattan distance. */
+  heuristic?: HeuristicId;
+  /** Only set for the custom heuristic. */
+  expression?: string;
+  /** Only set for Weighted A*. */
+  weight?: number;
+  step: number | null;
+}
+
+export interface ShareableViewProps<V> {
+  initialView?: V;
+  onViewChange?: (view: V) => void;
+}
+
+export class UrlStateError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(problems.join('\n'));
+    this.name = 'UrlStateError';
+    this.problems = problems;
+  }
+}
+
+// Graphs travel as the adjacency-list format, base64url encoded so they survive in a query string
+const toBase64Url = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (value: string) =>
+  new TextDecoder('utf-8', { fatal: true }).decode(
+    Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0)),
+  );
+
+// Endpoints have their own parameters, so the encoded graph carries neutral ones; direction rides along as @directed
+const graphText = (graph: GraphNode[], directed = false) =>
+  serializeGraph({ graph, endpoints: { start: graph[0]?.id ?? '', goals: [] }, directed }, 'adjacency');
+
+const DEFAULT_GRAPH_TEXT = graphText(DEFAULT_GRAPH);
+
+const readInteger = (params: URLSearchParams, name: string, min: number, max: number, problems: string[]) => {
+  const raw = params.get(name);
+  if (raw === null) return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    const range = max === Infinity ? `of at least ${min}` : `from ${min} to ${max}`;
+    problems.push(`"${name}" must be a whole number ${range}, but the link has "${raw}".`);
+    return undefined;
+  }
+  return value;
+};
+
+export const encodeGraphView = (view: GraphView): URLSearchParams => {
+  const params = new URLSearchParams();
+  const text = graphText(view.graph, view.directed);
+  if (text !== DEFAULT_GRAPH_TEXT) params.set('graph', toBase64Url(text));
+  params.set('start', view.endpoints.start);
+  params.set('goals', view.endpoints.goals.join(','));
+  if (view.algorithms) params.set('algorithms', view.algorithms.join(','));
+  if (view.depthLimit !== undefined) params.set('limit', String(view.depthLimit));
+  if (view.iterative) params.set('mode', 'ids');
+  if (view.step > 0) params.set('step', String(view.step));
+  return params;
+};
+
+/** Throws a UrlStateError describing everything wrong with the link. */
+export const decodeGraphView = (params: URLSearchParams): GraphView => {
+  const problems: string[] = [];
+
+  let graph = DEFAULT_GRAPH;
+  let directed = false;
+  const encodedGraph = params.get('graph');
+  if (encodedGraph !== null) {
+    try {
+      ({ graph, directed = false } = parseGraph(fromBase64Url(encodedGraph), 'adjacency'));
+    } catch (error) {
+      problems.push(
+        ...(error instanceof GraphFormatError
+          ? error.problems.map(problem => `Graph: ${problem}`)
+          : ['The graph in this link is truncated or corrupted.']),
+      );
+    }
+  }
+
+  const goals = params.get('goals');
+  const endpoints: Endpoints = {
+    start: params.get('start') ?? DEFAULT_ENDPOINTS.start,
+    goals: goals === null ? DEFAULT_ENDPOINTS.goals : goals.split(',').filter(Boolean),
+  };
+  // Only endpoint problems are new here; the graph itself was validated while parsing
+  if (problems.length === 0) {
+    problems.push(...validateGraph({ graph, endpoints, directed }).filter(problem => /^(Start|Goal) node/.test(problem)));
+  }
+
+  let algorithms: ComparedAlgorithm[] | undefined;
+  const rawAlgorithms = params.get('algorithms');
+  if (rawAlgorithms !== null) {
+    const ids = rawAlgorithms.split(',').filter(Boolean);
+    const unknown = ids.filter(id => !COMPARED_ALGORITHMS.some(algorithm => algorithm.id === id));
+    if (unknown.length > 0) problems.push(`Unknown algorithm ${unknown.join(', ')}; use bfs, dfs, dls or ucs.`);
+    else if (ids.length < MIN_COMPARED || ids.length > MAX_COMPARED) {
+      problems.push(`A comparison needs ${MIN_COMPARED} to ${MAX_COMPARED} algorithms, but the link has ${ids.length}.`);
+    } else algorithms = ids as ComparedAlgorithm[];
+  }
+
+  const mode = params.get('mode');
+  if (mode !== null && mode !== 'ids') problems.push(`Unknown mode "${mode}"; the only mode is "ids".`);
+
+  const depthLimit = readInteger(params, 'limit', 0, 10, problems);
+  const step = readInteger(params, 'step', 0, Infinity, problems);
+
+  if (problems.length > 0) throw new UrlStateError(problems);
+  return { graph, endpoints, step: step ?? 0, directed, depthLimit, iterative: mode === 'ids', algorithms };
+};
+
+const DEFAULT_CELLS_TEXT = encodeCells(DEFAULT_WORLD.cells);
+
+export const encodeGridView = ({ world, algorithm, depthLimit, step }: GridView): URLSearchParams => {
+  const params = new URLSearchParams();
+  const cells = encodeCells(world.cells);
+  if (world.rows !== DEFAULT_WORLD.rows || world.columns !== DEFAULT_WORLD.columns || cells !== DEFAULT_CELLS_TEXT) {
+    params.set('size', `${world.rows}x${world.columns}`);
+    params.set('cells', cells);
+  }
+  params.set('start', cellId(world, world.start));
+  params.set('goal', cellId(world, world.goal));
+  params.set('algorithm', algorithm);
+  if (depthLimit !== undefined) params.set('limit', String(depthLimit));
+  if (step > 0) params.set('step', String(step));
+  return params;
+};
+
+export const decodeGridView = (params: URLSearchParams): GridView => {
+  const problems: string[] = [];
+
+  let world = DEFAULT_WORLD;
+  const size = params.get('size');
+  const rawCells = params.get('cells');
+  if ((size === null) !== (rawCells === null)) problems.push('A custom grid needs both "size" and "cells".');
+  else if (size !== null && rawCells !== null) {
+    const match = /^(\d+)x(\d+)$/.exec(size);
+    const [rows, columns] = match ? [Number(match[1]), Number(match[2])] : [NaN, NaN];
+    const cells = decodeCells(rawCells);
+    if (![rows, columns].every(n => n >= MIN_GRID_SIZE && n <= MAX_GRID_SIZE)) {
+      problems.push(`"size" must be rows x columns, each from ${MIN_GRID_SIZE} to ${MAX_GRID_SIZE}, but the link has "${size}".`);
+    } else if (!cells || cells.length !== rows * columns) {
+      problems.push(`"cells" must describe exactly ${rows * columns} cells of a ${rows}x${columns} grid.`);
+    } else world = { ...world, rows, columns, cells };
+  }
+
+  // Endpoints are only checked against a grid that decoded cleanly
+  const readCell = (name: 'start' | 'goal') => {
+    const raw = params.get(name);
+    if (raw === null || problems.length > 0) return world[name];
+    const [row, column] = raw.split(',').map(Number);
+    if (!/^\d+,\d+$/.test(raw) || row >= world.rows || column >= world.columns) {
+      problems.push(`"${name}" must be a row,column inside the ${world.rows}x${world.columns} grid, but the link has "${raw}".`);
+      return world[name];
+    }
+    const index = cellIndex(world, raw);
+    if (world.cells[index] === 'wall') problems.push(`The ${name} cell ${raw} is a wall.`);
+    return index;
+  };
+  const start = readCell('start');
+  const goal = readCell('goal');
+  if (problems.length === 0 && start === goal) problems.push('Start and goal must be different cells.');
+
+  const algorithm = params.get('algorithm') ?? 'bfs';
+  if (!COMPARED_ALGORITHMS.some(({ id }) => id === algorithm)) {
+    problems.push(`Unknown algorithm "${algorithm}"; use bfs, dfs, dls or ucs.`);
+  }
+
+  const depthLimit = readInteger(params, 'limit', 0, MAX_GRID_SIZE * MAX_GRID_SIZE, problems);
+  const step = readInteger(params, 'step', 0, Infinity, problems);
+
+  if (problems.length > 0) throw new UrlStateError(problems);
+  return {
+    world: { ...world, start, goal },
+    algorithm: algorithm as ComparedAlgorithm,
+    depthLimit: algorithm === 'dls' ? depthLimit : undefined,
+    step: step ?? 0,
+  };
+};
+
+// Tiles above 9 need a separator; 8-puzzle links keep their compact form
+const boardText = (board: number[]) => board.join(board.length > 10 ? '-' : '');
+
+export const encodePuzzleView = (view: PuzzleView): URLSearchParams => {
+  const params = new URLSearchParams({ board: boardText(view.board), strategy: view.strategy });
+  if (view.goal && boardText(view.goal) !== boardText(goalBoard(boardSize(view.board)))) {
+    params.set('goal', boardText(view.goal));
+  }
+  if (view.moveCost === 'tile') params.set('cost', 'tile');
+  if (view.depthLimit !== undefined) params.set('limit', String(view.depthLimit));
+  if (view.heuristic && view.heuristic !== 'manhattan') params.set('heuristic', view.heuristic);
+  if (view.heuristic === 'custom' && view.expression !== undefined) params.set('h', view.expression);
+  if (view.weight !== undefined) params.set('weight', String(view.weight));
+  if (view.step !== null) params.set('step', String(view.step));
+  return params;
+};
+
+const readBoard = (params: URLSearchParams, name: string, problems: string[]) => {
+  const raw = params.get(name);
+  if (raw === null) return undefined;
+  const tiles = raw.split(raw.includes('-') ? '-' : '').map(Number);
+  const sorted = [...tiles].sort((a, b) => a - b);
+  const size = PUZZLE_SIZES.find(option => option * option === tiles.length);
+  if (!size) {
+    const lengths = PUZZLE_SIZES.map(option => option * option);
+    problems.push(`"${name}" must have ${lengths.slice(0, -1).join(', ')} or ${lengths.at(-1)} tiles, but the link has ${tiles.length}.`);
+    return undefined;
+  }
+  if (sorted.some((tile, index) => tile !== index)) {
+    problems.push(`"${name}" must list each tile 0–${tiles.length - 1} exactly once (0 is the blank), but the link has "${raw}".`);
+    return undefined;
+  }
+  return tiles;
+};
+
+export const decodePuzzleView = (params: URLSearchParams): PuzzleView => {
+  const problems: string[] = [];
+
+  const board = readBoard(params, 'board', problems) ?? INITIAL_BOARD;
+  const goal = readBoard(params, 'goal', problems) ?? goalBoard(boardSize(board));
+  if (problems.length === 0) {
+    if (goal.length !== board.length) problems.push('"board" and "goal" must be the same size.');
+    else {
+      const reason = unsolvableReason(board, goal);
+      if (reason) problems.push(`The board in this link can never reach its goal. ${reason}`);
+    }
+  }
+
+  const strategy = params.get('strategy') ?? 'bfs';
+  if (!PUZZLE_STRATEGIES.includes(strategy as PuzzleStrategy)) {
+    problems.push(`Unknown strategy "${strategy}"; use ${PUZZLE_STRATEGIES.join(', ')}.`);
+  }
+
+  const moveCost = params.get('cost') ?? 'unit';
+  if (moveCost !== 'unit' && moveCost !== 'tile') problems.push(`Unknown cost "${moveCost}"; use unit or tile.`);
+
+  const heuristic = params.get('heuristic') ?? 'manhattan';
+  if (!HEURISTICS.some(({ id }) => id === heuristic)) {
+    problems.push(`Unknown heuristic "${heuristic}"; use ${HEURISTICS.map(({ id }) => id).join(', ')}.`);
+  }
+  const expression = params.get('h') ?? undefined;
+  if (heuristic === 'custom') {
+    if (expression === undefined) problems.push('A custom heuristic needs its expression in "h".');
+    else {
+      try {
+        parseExpression(expression);
+      } catch (error) {
+        if (!(error instanceof ExpressionError)) throw error;
+        problems.push(...error.problems.map(problem => `The heuristic "${expression}" does not work: ${problem}`));
+      }
+    }
+  }
+
+  const rawWeight = params.get('weight');
+  const weight = rawWeight === null ? undefined : Number(rawWeight);
+  if (weight !== undefined && !(weight >= MIN_WEIGHT && weight <= MAX_WEIGHT)) {
+    problems.push(`"weight" must be a number from ${MIN_WEIGHT} to ${MAX_WEIGHT}, but the link has "${rawWeight}".`);
+  }
+
+  const depthLimit = readInteger(params, 'limit', 0, MAX_DEPTH_LIMIT, problems);
+  const step = readInteger(params, 'step', 0, Infinity, problems);
+
+  if (problems.length > 0) throw new UrlStateError(problems);
+  return {
+    board,
+    goal,
+    strategy: strategy as PuzzleStrategy,
+    moveCost: moveCost as MoveCost,
+    depthLimit: strategy === 'dls' ? depthLimit : undefined,
+    heuristic: heuristic as HeuristicId,
+    expression: heuristic === 'custom' ? expression : undefined,
+    weight: strategy === 'weighted' ? weight : undefined,
+    step: step ?? null,
+  };
+};
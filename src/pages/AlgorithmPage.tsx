@@ -0,0 +1,83 @@
+import type { ComponentType, ReactNode } from 'react';
+import BreadthFirstSearch from '@/components/algorithms/BreadthFirstSearch';
+import DepthFirstSearch from '@/components/algorithms/DepthFirstSearch';
+import DepthLimitedSearch from '@/components/algorithms/DepthLimitedSearch';
+import UniformCostSearch from '@/components/algorithms/UniformCostSearch';
+import BidirectionalSearch from '@/components/algorithms/BidirectionalSearch';
+import AlgorithmComparison from '@/components/algorithms/AlgorithmComparison';
+import GridPathfinding from '@/components/algorithms/GridPathfinding';
+import EightPuzzle from '@/components/algorithms/EightPuzzle';
+import { useUrlView } from '@/hooks/use-url-view';
+import {
+  decodeGraphView,
+  decodeGridView,
+  decodePuzzleView,
+  encodeGraphView,
+  encodeGridView,
+  encodePuzzleView,
+  type GraphView,
+  type ShareableViewProps,
+} from '@/lib/share/url-state';
+import type { AlgorithmRoute, GraphRouteId } from '@/lib/share/routes';
+import InvalidLink from './InvalidLink';
+
+const GRAPH_VISUALIZERS: Record<GraphRouteId, ComponentType<ShareableViewProps<GraphView>>> = {
+  bfs: BreadthFirstSearch,
+  dfs: DepthFirstSearch,
+  dls: DepthLimitedSearch,
+  ucs: UniformCostSearch,
+  bidirectional: BidirectionalSearch,
+  compare: AlgorithmComparison,
+};
+
+const PageLayout = ({ route, children }: { route: AlgorithmRoute; children: ReactNode }) => (
+  <div className="container mx-auto py-8 space-y-6">
+    <div>
+      <h1 className="text-3xl font-bold">{route.title}</h1>
+      <p className="text-muted-foreground">{route.description}</p>
+    </div>
+    {children}
+  </div>
+);
+
+const GraphPage = ({ route, id }: { route: AlgorithmRoute; id: GraphRouteId }) => {
+  const { view, problems, onViewChange } = useUrlView(decodeGraphView, encodeGraphView);
+  if (problems) return <InvalidLink title={route.title} path={route.path} problems={problems} />;
+
+  const Visualizer = GRAPH_VISUALIZERS[id];
+  return (
+    <PageLayout route={route}>
+      <Visualizer initialView={view} onViewChange={onViewChange} />
+    </PageLayout>
+  );
+};
+
+const GridPage = ({ route }: { route: AlgorithmRoute }) => {
+  const { view, problems, onViewChange } = useUrlView(decodeGridView, encodeGridView);
+  if (problems) return <InvalidLink title={route.title} path={route.path} problems={problems} />;
+
+  return (
+    <PageLayout route={route}>
+      <GridPathfinding initialView={view} onViewChange={onViewChange} />
+    </PageLayout>
+  );
+};
+
+const PuzzlePage = ({ route }: { route: AlgorithmRoute }) => {
+  const { view, problems, onViewChange } = useUrlView(decodePuzzleView, encodePuzzleView);
+  if (problems) return <InvalidLink title={route.title} path={route.path} problems={problems} />;
+
+  return (
+    <PageLayout route={route}>
+      <EightPuzzle initialView={view} onViewChange={onViewChange} />
+    </PageLayout>
+  );
+};
+
+const AlgorithmPage = ({ route }: { route: AlgorithmRoute }) => {
+  if (route.id === '8-puzzle') return <PuzzlePage route={route} />;
+  if (route.id === 'grid') return <GridPage route={route} />;
+  return <GraphPage route={route} id={route.id} />;
+};
+
+export default AlgorithmPage;
@@ -0,0 +1,39 @@
+import { Link } from "react-router-dom";
+
+interface InvalidLinkProps {
+  title: string;
+  path: string;
+  problems: string[];
+}
+
+const InvalidLink = ({ title, path, problems }: InvalidLinkProps) => {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted">
+      <div className="max-w-xl space-y-4 p-6">
+        <h1 className="text-3xl font-bold">This link could not be opened</h1>
+        <p className="text-muted-foreground">
+          The {title} link describes a state that does not make sense, usually because it was
+          cut off while copying or edited by hand:
+        </p>
+        <ul className="list-disc ml-6 space-y-1 text-sm p-4 bg-destructive/20 border border-destructive rounded">
+          {problems.map((problem, index) => (
+            <li key={index}>{problem}</li>
+          ))}
+        </ul>
+        <p className="text-muted-foreground">
+          Ask for the link again, or start from the default setup and rebuild the view.
+        </p>
+        <div className="flex gap-4">
+          <Link to={path} className="text-primary underline hover:text-primary/80">
+            Open {title} with the default setup
+          </Link>
+          <Link to="/" className="text-primary underline hover:text-primary/80">
+            Return to Home
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InvalidLink;